@@ -36,6 +36,24 @@ export interface BotStatus {
     // Transaction references
     lastBuyTx: string | null;
     lastRewardTxs: string[];
+
+    // Indexer progress
+    scanLastRunTs: number | null;
+    scanBackfillPending: boolean;
+    /** Indexer lag behind the newest mint transaction seen on chain (0 when caught up) */
+    scanBehindSeconds: number;
+    /** Older history (seconds) the backfill has not indexed yet */
+    scanBackfillBehindSeconds: number;
+    /** Seconds since the newest processed mint transaction (null before the first scan) */
+    scanLastTransactionAgeSeconds: number | null;
+
+    // Background job queue
+    jobsPending: number;
+    jobsRunning: number;
+    /** Pending jobs that have failed at least once and await retry */
+    jobsRetrying: number;
+    /** Jobs dead-lettered after exhausting their attempts */
+    jobsDead: number;
 }
 
 export type SystemState = 'online' | 'offline' | 'paused' | 'safe-mode';
@@ -0,0 +1,4 @@
+// Round verifier shared with the bot (no Node APIs, runs in the browser)
+export * from '../../src/verifier';
+export type { EligibilitySnapshot, SnapshotEntry } from '../../src/lottery';
+export * from '../../src/merkle';
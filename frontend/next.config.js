@@ -1,7 +1,18 @@
+const path = require('path');
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
     output: 'standalone',
     reactStrictMode: true,
+    experimental: {
+        // Lets the frontend import the browser-safe round verifier from ../src
+        externalDir: true,
+    },
+    webpack: (config) => {
+        // ../src imports (@noble/hashes) resolve from the frontend's own packages too
+        config.resolve.modules.push(path.resolve(__dirname, 'node_modules'));
+        return config;
+    },
 };
 
 module.exports = nextConfig;
@@ -0,0 +1,151 @@
+import { PublicKey } from '@solana/web3.js';
+import { HeliusEnrichedTransaction } from './sources';
+import { HolderEventKind, HolderEventRow } from './db';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Event Classification
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Incoming tokens from a sender paying this many wallets at once count as an airdrop */
+const AIRDROP_MIN_RECIPIENTS = 3;
+
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export interface ClassificationHints {
+    /** Wallets with a detected buy in this transaction */
+    buyers: Set<string>;
+    /** Wallets with a detected sell in this transaction */
+    sellers: Set<string>;
+    /** Reward treasury; tokens it sends are rewards, never activity */
+    treasury: string;
+}
+
+/**
+ * Classify every wallet whose balance of `tokenMint` changed in a transaction.
+ *
+ * Net token deltas are summed per owner, so moving tokens between two token
+ * accounts of the same wallet produces no event at all.
+ */
+export function classifyTransaction(
+    tx: HeliusEnrichedTransaction,
+    tokenMint: string,
+    hints: ClassificationHints
+): HolderEventRow[] {
+    // Net raw token delta per owner
+    const deltas = new Map<string, bigint>();
+    for (const account of tx.accountData) {
+        for (const change of account.tokenBalanceChanges) {
+            if (change.mint !== tokenMint || !change.userAccount) continue;
+            const current = deltas.get(change.userAccount) ?? BigInt(0);
+            deltas.set(change.userAccount, current + BigInt(change.rawTokenAmount.tokenAmount));
+        }
+    }
+
+    const transfers = tx.tokenTransfers.filter(t => t.mint === tokenMint);
+    const events: HolderEventRow[] = [];
+
+    for (const [wallet, delta] of deltas) {
+        if (delta === BigInt(0) || wallet === hints.treasury) continue;
+
+        const incoming = delta > BigInt(0);
+        const amount = incoming ? delta : -delta;
+        let kind: HolderEventKind;
+        let counterparty: string | null = null;
+
+        if (incoming) {
+            const sender = transfers.find(t => t.toUserAccount === wallet && t.fromUserAccount !== wallet);
+            counterparty = sender?.fromUserAccount || null;
+
+            if (counterparty === hints.treasury) {
+                kind = 'reward_received';
+            } else if (hints.buyers.has(wallet)) {
+                kind = 'buy';
+            } else if (!counterparty || isAirdropSender(counterparty, transfers)) {
+                kind = 'airdrop';
+            } else {
+                kind = 'transfer_in';
+            }
+        } else {
+            const recipient = transfers.find(t => t.fromUserAccount === wallet && t.toUserAccount !== wallet);
+            counterparty = recipient?.toUserAccount || null;
+
+            if (hints.sellers.has(wallet) || receivedSol(tx, wallet) || isProgramOwned(counterparty)) {
+                // Decoded sell, tokens swapped for SOL/WSOL, or tokens sent into a pool (Jupiter, Raydium, Meteora)
+                kind = 'sell';
+            } else if (counterparty) {
+                kind = 'transfer_out';
+            } else {
+                // Tokens left without a wallet-to-wallet transfer (swap, burn): treat as a sell
+                kind = 'sell';
+            }
+        }
+
+        events.push({
+            signature: tx.signature,
+            wallet,
+            kind,
+            token_amount_raw: amount.toString(),
+            counterparty,
+            ts: tx.timestamp,
+        });
+    }
+
+    return events;
+}
+
+function isAirdropSender(sender: string, transfers: HeliusEnrichedTransaction['tokenTransfers']): boolean {
+    const recipients = new Set(
+        transfers.filter(t => t.fromUserAccount === sender).map(t => t.toUserAccount)
+    );
+    return recipients.size >= AIRDROP_MIN_RECIPIENTS;
+}
+
+/**
+ * Whether the wallet got SOL or WSOL in the transaction: a native or WSOL
+ * transfer to it from someone else, or a net gain in its SOL balance.
+ */
+function receivedSol(tx: HeliusEnrichedTransaction, wallet: string): boolean {
+    if (tx.nativeTransfers.some(t => t.toUserAccount === wallet && t.fromUserAccount !== wallet && t.amount > 0)) {
+        return true;
+    }
+    if (tx.tokenTransfers.some(t => t.mint === WSOL_MINT && t.toUserAccount === wallet && t.fromUserAccount !== wallet)) {
+        return true;
+    }
+    const account = tx.accountData.find(a => a.account === wallet);
+    return account !== undefined && account.nativeBalanceChange > 0;
+}
+
+/** Off-curve owners are program PDAs (pool authorities, vaults), never a person's wallet */
+function isProgramOwned(owner: string | null): boolean {
+    if (!owner) return false;
+    try {
+        return !PublicKey.isOnCurve(new PublicKey(owner).toBytes());
+    } catch {
+        return false;
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Continuity Rules
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Decide whether a balance decrease is fully explained by wallet-to-wallet
+ * transfers (e.g. moving tokens to a second wallet) rather than selling.
+ * Any sell event, or outgoing transfers that do not cover the decrease,
+ * means the decrease breaks continuity.
+ */
+export function isDecreaseExplainedByTransfers(
+    events: HolderEventRow[],
+    decreaseRaw: bigint
+): boolean {
+    if (events.some(e => e.kind === 'sell')) {
+        return false;
+    }
+
+    const transferredOut = events
+        .filter(e => e.kind === 'transfer_out')
+        .reduce((sum, e) => sum + BigInt(e.token_amount_raw), BigInt(0));
+
+    return transferredOut > BigInt(0) && transferredOut >= decreaseRaw;
+}
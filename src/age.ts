@@ -1,31 +1,51 @@
 import { Connection, PublicKey } from '@solana/web3.js';
-import { getHolder, upsertHolder } from './db';
+import { getConfig, Config } from './config';
+import { getHolder, upsertHolder, getHoldersPendingAge, enqueueJob, AgeStatus, HolderRow } from './db';
+import { strategyUsesWalletAge } from './weights';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Wallet Age Calculation
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Pages fetched per call; discovery resumes from the saved cursor next time */
 const MAX_AGE_PAGES = 20;
 const SIGNATURES_PER_PAGE = 1000;
+const RESUME_WALLETS_PER_RUN = 20;
 
 /**
- * Compute wallet age by finding the oldest transaction.
- * Paginates up to 20 pages (20,000 transactions) to find the earliest tx.
- * Result is cached permanently in the database.
+ * Discover a wallet's age by paginating its signatures back to the first
+ * transaction.
+ *
+ * Each call fetches at most 20 pages and persists the oldest time seen and
+ * the pagination cursor after every page, so very active wallets are walked
+ * across runs instead of being cut off. Until the first transaction is
+ * reached the age is a lower bound ('lower_bound'); once reached it is
+ * 'exact' and never fetched again.
+ *
+ * When the weight strategy ignores wallet age, discovery stops early once
+ * the lower bound already satisfies `walletMinAgeDays`, since an older first
+ * transaction cannot change eligibility. Age-weighted strategies walk on to
+ * the exact age.
+ *
+ * RPC errors are thrown (after the pages already read are saved) so the job
+ * queue can retry.
  */
 export async function computeWalletAge(
     connection: Connection,
     wallet: string
 ): Promise<number | null> {
-    // Check if already cached
+    const config = getConfig();
     const holder = getHolder(wallet);
-    if (holder?.first_seen_ts) {
+
+    if (holder && isWalletAgeSettled(holder, config)) {
         return holder.first_seen_ts;
     }
+    const needsExact = strategyUsesWalletAge(config.weightStrategy);
 
     const walletPubkey = new PublicKey(wallet);
-    let oldestBlockTime: number | null = null;
-    let beforeSignature: string | undefined = undefined;
+    let oldestBlockTime: number | null = holder?.first_seen_ts ?? null;
+    // Ages cached before status tracking have no cursor: walk them again from the newest signature
+    let beforeSignature: string | undefined = holder?.age_cursor ?? undefined;
 
     try {
         for (let page = 0; page < MAX_AGE_PAGES; page++) {
@@ -37,10 +57,6 @@ export async function computeWalletAge(
                 }
             );
 
-            if (signatures.length === 0) {
-                break;
-            }
-
             // Get the oldest in this batch
             for (const sig of signatures) {
                 if (sig.blockTime) {
@@ -50,31 +66,75 @@ export async function computeWalletAge(
                 }
             }
 
-            // Set up for next page
-            beforeSignature = signatures[signatures.length - 1].signature;
+            // If we got fewer than limit, we've reached the first transaction
+            const reachedStart = signatures.length < SIGNATURES_PER_PAGE;
+            if (signatures.length > 0) {
+                beforeSignature = signatures[signatures.length - 1].signature;
+            }
+
+            saveWalletAge(wallet, oldestBlockTime, reachedStart ? 'exact' : 'lower_bound', reachedStart ? null : beforeSignature ?? null);
+
+            if (reachedStart) {
+                console.log(`[AGE] Wallet ${wallet.slice(0, 8)}... age (exact): ${formatTs(oldestBlockTime)}`);
+                return oldestBlockTime;
+            }
 
-            // If we got fewer than limit, we've reached the end
-            if (signatures.length < SIGNATURES_PER_PAGE) {
-                break;
+            if (!needsExact && oldestBlockTime && isWalletAgeEligible(oldestBlockTime, config.walletMinAgeDays)) {
+                console.log(`[AGE] Wallet ${wallet.slice(0, 8)}... older than ${config.walletMinAgeDays} days, stopping at lower bound`);
+                return oldestBlockTime;
             }
 
             // Rate limiting - small delay between pages
             await new Promise(resolve => setTimeout(resolve, 100));
         }
 
-        // Cache the result
-        if (oldestBlockTime) {
-            upsertHolder(wallet, {
-                first_seen_ts: oldestBlockTime,
-            });
-            console.log(`[AGE] Wallet ${wallet.slice(0, 8)}... age: ${new Date(oldestBlockTime * 1000).toISOString()}`);
-        }
-
+        console.log(`[AGE] Wallet ${wallet.slice(0, 8)}... age (lower bound): ${formatTs(oldestBlockTime)}, will resume`);
         return oldestBlockTime;
     } catch (err) {
         console.error(`[AGE] Error computing age for ${wallet}:`, err);
-        return null;
+        throw err;
+    }
+}
+
+function saveWalletAge(wallet: string, firstSeenTs: number | null, status: AgeStatus, cursor: string | null): void {
+    upsertHolder(wallet, {
+        first_seen_ts: firstSeenTs,
+        age_status: status,
+        age_cursor: cursor,
+    });
+}
+
+function formatTs(ts: number | null): string {
+    return ts ? new Date(ts * 1000).toISOString() : 'unknown';
+}
+
+/**
+ * Whether age discovery is finished for a holder: the age is exact, or the
+ * weight strategy ignores age and the lower bound already passes
+ * `walletMinAgeDays`.
+ */
+export function isWalletAgeSettled(holder: HolderRow, config: Config): boolean {
+    if (holder.age_status === 'exact') return true;
+    return !strategyUsesWalletAge(config.weightStrategy)
+        && isWalletAgeEligible(holder.first_seen_ts, config.walletMinAgeDays);
+}
+
+/**
+ * Queue age discovery for holders whose age is unknown or an insufficient
+ * lower bound; with an age-weighted strategy, for every lower bound.
+ * Returns the number of wallets newly queued.
+ */
+export function resumeWalletAges(limit: number = RESUME_WALLETS_PER_RUN): number {
+    const config = getConfig();
+    const minAgeTs = Math.floor(Date.now() / 1000) - config.walletMinAgeDays * 24 * 60 * 60;
+    const pending = getHoldersPendingAge(minAgeTs, limit, strategyUsesWalletAge(config.weightStrategy));
+    const queued = pending.filter(holder => enqueueJob('wallet_age', holder.wallet)).length;
+
+    if (queued > 0) {
+        console.log(`[AGE] Queued age discovery for ${queued} wallets`);
     }
+
+    return queued;
 }
 
 /**
@@ -1,110 +1,261 @@
 import { Connection, PublicKey } from '@solana/web3.js';
-import { getAssociatedTokenAddress, getAccount } from '@solana/spl-token';
+import {
+    getAssociatedTokenAddress,
+    getAssociatedTokenAddressSync,
+    getAccount,
+    unpackAccount,
+    Account,
+} from '@solana/spl-token';
 import { getConfig } from './config';
-import { getAllHolders, updateHolderBalance, HolderRow } from './db';
-import { getTokenDecimals, rawToUi } from './token';
+import {
+    getAllHolders,
+    getAllTokenAccounts,
+    updateHolderBalances,
+    getScanState,
+    setScanState,
+    TokenAccountRow,
+    BalanceSnapshotRow,
+} from './db';
+import { getTokenDecimals, getTokenProgramId, rawToUi } from './token';
+import { compactBalanceSnapshots } from './twb';
+import { ContinuityRule } from './continuity';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Balance Refresh
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Maximum accounts per getMultipleAccountsInfo call */
+const ACCOUNTS_PER_CALL = 100;
+
+/** scan_state key holding when balances were last refreshed */
+const BALANCE_REFRESH_TS_KEY = 'last_balance_refresh_ts';
+
+/** Tail of the refresh queue: refreshes run one at a time */
+let refreshQueue: Promise<unknown> = Promise.resolve();
+
 export interface BalanceUpdate {
     wallet: string;
     balanceRaw: string;
     balanceUi: number;
     previousBalanceRaw: string | null;
     decreased: boolean;
+    continuityBroken: boolean;
+    /** Continuity policy rule that fired */
+    continuityRule: ContinuityRule;
+}
+
+export interface BalanceRefreshResult {
+    /** Holders whose balance changed since the last refresh */
+    updates: BalanceUpdate[];
+    holdersChecked: number;
+    rpcCalls: number;
+    elapsedMs: number;
 }
 
 /**
  * Refresh token balances for all known holders.
- * Returns list of balance updates with decrease detection.
+ *
+ * A holder's balance is the sum over every token account for the mint they
+ * own: their ATA (derived locally) plus any other account indexed while
+ * scanning. Accounts are fetched up to 100 at a time with
+ * getMultipleAccountsInfo and decoded in-process. Only changed balances are
+ * written, together with the per-account breakdown and a balance snapshot
+ * for every holder read, in one SQLite transaction.
+ *
+ * The job queue and reward rounds both refresh; a call made while another
+ * refresh is running starts once it has finished.
  */
-export async function refreshAllBalances(connection: Connection): Promise<BalanceUpdate[]> {
+export function refreshAllBalances(connection: Connection): Promise<BalanceRefreshResult> {
+    const run = refreshQueue.then(() => runBalanceRefresh(connection));
+    refreshQueue = run.catch(() => undefined);
+    return run;
+}
+
+async function runBalanceRefresh(connection: Connection): Promise<BalanceRefreshResult> {
     const config = getConfig();
+    const startedAt = Date.now();
     const holders = getAllHolders();
     const decimals = await getTokenDecimals(connection);
+    const programId = await getTokenProgramId(connection);
     const now = Math.floor(Date.now() / 1000);
 
-    const updates: BalanceUpdate[] = [];
-    const BATCH_SIZE = 50;
+    // Token accounts to read, with the owner we expect
+    const candidates = new Map<string, string>();
+    for (const holder of holders) {
+        const ata = getAssociatedTokenAddressSync(config.tokenMint, new PublicKey(holder.wallet), true, programId);
+        candidates.set(ata.toBase58(), holder.wallet);
+    }
+    const indexed = new Set<string>();
+    for (const account of getAllTokenAccounts()) {
+        candidates.set(account.address, account.owner);
+        indexed.add(account.address);
+    }
 
-    console.log(`[BALANCES] Refreshing balances for ${holders.length} holders`);
+    console.log(`[BALANCES] Refreshing balances for ${holders.length} holders (${candidates.size} token accounts)`);
 
-    for (let i = 0; i < holders.length; i += BATCH_SIZE) {
-        const batch = holders.slice(i, i + BATCH_SIZE);
+    const addresses = Array.from(candidates.keys());
+    const accounts = new Map<string, FetchedTokenAccount | null>();
+    const unreadOwners = new Set<string>();
+    let rpcCalls = 0;
 
-        const batchUpdates = await Promise.all(
-            batch.map(async (holder) => {
-                return await refreshHolderBalance(connection, holder, decimals, now);
-            })
-        );
+    for (let i = 0; i < addresses.length; i += ACCOUNTS_PER_CALL) {
+        const batch = addresses.slice(i, i + ACCOUNTS_PER_CALL);
 
-        for (const update of batchUpdates) {
-            if (update) {
-                updates.push(update);
+        try {
+            rpcCalls++;
+            const fetched = await fetchTokenAccounts(connection, batch, programId);
+            for (const [address, account] of fetched) {
+                accounts.set(address, account);
             }
+        } catch (err) {
+            // Never write a partial sum for a holder whose accounts could not be read
+            for (const address of batch) {
+                unreadOwners.add(candidates.get(address)!);
+            }
+            console.error(`[BALANCES] Error fetching batch at ${i}:`, err);
         }
 
         // Rate limiting
-        if (i + BATCH_SIZE < holders.length) {
+        if (i + ACCOUNTS_PER_CALL < addresses.length) {
             await new Promise(resolve => setTimeout(resolve, 100));
         }
     }
 
+    // Sum per owner, attributing each account to its current on-chain owner
+    const balances = new Map<string, bigint>();
+    const accountRows: TokenAccountRow[] = [];
+
+    for (const holder of holders) {
+        if (!unreadOwners.has(holder.wallet)) {
+            balances.set(holder.wallet, BigInt(0));
+        }
+    }
+
+    for (const [address, account] of accounts) {
+        if (!account) {
+            // Closed account: keep the index row but zero it
+            if (indexed.has(address)) {
+                accountRows.push({ address, owner: candidates.get(address)!, balance_raw: '0', updated_ts: now });
+            }
+            continue;
+        }
+
+        accountRows.push({ address, owner: account.owner, balance_raw: account.amount.toString(), updated_ts: now });
+
+        const current = balances.get(account.owner);
+        if (current !== undefined) {
+            balances.set(account.owner, current + account.amount);
+        }
+    }
+
+    // Only changed balances are written (compared with the stored balance inside the write)
+    const observations = Array.from(balances, ([wallet, balance]) => ({ wallet, balanceRaw: balance.toString() }));
+    // Every readable balance is snapshotted for TWB, changed or not
+    const snapshots: BalanceSnapshotRow[] = Array.from(balances, ([wallet, balance]) => ({
+        wallet,
+        ts: now,
+        balance_raw: balance.toString(),
+        resolution: 'raw',
+        integral_raw: null,
+        span_seconds: null,
+    }));
+    const applied = updateHolderBalances(observations, now, accountRows, snapshots);
+    compactBalanceSnapshots(now);
+    setScanState(BALANCE_REFRESH_TS_KEY, now.toString());
+
+    const updates: BalanceUpdate[] = applied.map(a => {
+        const prevBalance = a.previousBalanceRaw ? BigInt(a.previousBalanceRaw) : BigInt(0);
+        return {
+            wallet: a.wallet,
+            balanceRaw: a.balanceRaw,
+            balanceUi: rawToUi(a.balanceRaw, decimals),
+            previousBalanceRaw: a.previousBalanceRaw,
+            decreased: BigInt(a.balanceRaw) < prevBalance,
+            continuityBroken: a.continuityBroken,
+            continuityRule: a.rule,
+        };
+    });
+
+    const result: BalanceRefreshResult = {
+        updates,
+        holdersChecked: balances.size,
+        rpcCalls,
+        elapsedMs: Date.now() - startedAt,
+    };
+
     const decreasedCount = updates.filter(u => u.decreased).length;
-    console.log(`[BALANCES] Updated ${updates.length} balances, ${decreasedCount} decreased (continuity broken)`);
+    const brokenCount = updates.filter(u => u.continuityBroken).length;
+    console.log(`[BALANCES] Checked ${result.holdersChecked} holders, ${updates.length} changed, ` +
+        `${decreasedCount} decreased, ${brokenCount} continuity broken ` +
+        `(${rpcCalls} RPC calls, ${result.elapsedMs}ms)`);
 
-    return updates;
+    const ruleCounts = new Map<ContinuityRule, number>();
+    for (const update of updates.filter(u => u.decreased)) {
+        ruleCounts.set(update.continuityRule, (ruleCounts.get(update.continuityRule) ?? 0) + 1);
+    }
+    if (ruleCounts.size > 0) {
+        const summary = Array.from(ruleCounts, ([rule, count]) => `${rule}=${count}`).join(', ');
+        console.log(`[BALANCES] Continuity rules fired on decreases: ${summary}`);
+    }
+
+    return result;
 }
 
 /**
- * Refresh balance for a single holder.
+ * When all balances were last refreshed (unix seconds), null if never.
  */
-async function refreshHolderBalance(
+export function getLastBalanceRefreshTs(): number | null {
+    const value = getScanState(BALANCE_REFRESH_TS_KEY);
+    return value ? parseInt(value, 10) : null;
+}
+
+interface FetchedTokenAccount {
+    owner: string;
+    amount: bigint;
+}
+
+/**
+ * Fetch up to 100 token accounts with one RPC call.
+ * Missing (closed or never created) accounts, addresses that are not token
+ * accounts and accounts of another mint map to null.
+ */
+async function fetchTokenAccounts(
     connection: Connection,
-    holder: HolderRow,
-    decimals: number,
-    now: number
-): Promise<BalanceUpdate | null> {
+    addresses: string[],
+    programId: PublicKey
+): Promise<Map<string, FetchedTokenAccount | null>> {
     const config = getConfig();
+    const keys = addresses.map(a => new PublicKey(a));
+    const infos = await connection.getMultipleAccountsInfo(keys, 'confirmed');
 
-    try {
-        const walletPubkey = new PublicKey(holder.wallet);
-        const ata = await getAssociatedTokenAddress(config.tokenMint, walletPubkey);
-
-        let balanceRaw = '0';
+    const accounts = new Map<string, FetchedTokenAccount | null>();
+    for (let i = 0; i < addresses.length; i++) {
+        const info = infos[i];
+        if (!info) {
+            accounts.set(addresses[i], null);
+            continue;
+        }
 
+        // No longer a token account (e.g. a closed ATA since funded with SOL)
+        let account: Account;
         try {
-            const account = await getAccount(connection, ata);
-            balanceRaw = account.amount.toString();
+            account = unpackAccount(keys[i], info, programId);
         } catch {
-            // Account doesn't exist - balance is 0
+            accounts.set(addresses[i], null);
+            continue;
         }
 
-        const previousBalanceRaw = holder.last_balance_raw;
-        const currentBalance = BigInt(balanceRaw);
-        const prevBalance = previousBalanceRaw ? BigInt(previousBalanceRaw) : BigInt(0);
-        const decreased = currentBalance < prevBalance;
-
-        // Update database
-        updateHolderBalance(holder.wallet, balanceRaw, now, previousBalanceRaw);
-
-        return {
-            wallet: holder.wallet,
-            balanceRaw,
-            balanceUi: rawToUi(balanceRaw, decimals),
-            previousBalanceRaw,
-            decreased,
-        };
-    } catch (err) {
-        console.error(`[BALANCES] Error refreshing ${holder.wallet}:`, err);
-        return null;
+        accounts.set(addresses[i], account.mint.equals(config.tokenMint)
+            ? { owner: account.owner.toBase58(), amount: account.amount }
+            : null);
     }
+
+    return accounts;
 }
 
 /**
- * Get current token balance for a specific wallet.
+ * Get current token balance for a specific wallet, summed over all of its
+ * token accounts for the mint.
  */
 export async function getWalletTokenBalance(
     connection: Connection,
@@ -112,19 +263,24 @@ export async function getWalletTokenBalance(
 ): Promise<{ raw: string; ui: number }> {
     const config = getConfig();
     const decimals = await getTokenDecimals(connection);
-    const walletPubkey = new PublicKey(wallet);
-    const ata = await getAssociatedTokenAddress(config.tokenMint, walletPubkey);
+    const programId = await getTokenProgramId(connection);
 
-    try {
-        const account = await getAccount(connection, ata);
-        const raw = account.amount.toString();
-        return {
-            raw,
-            ui: rawToUi(raw, decimals),
-        };
-    } catch {
-        return { raw: '0', ui: 0 };
+    const { value } = await connection.getTokenAccountsByOwner(
+        new PublicKey(wallet),
+        { mint: config.tokenMint },
+        'confirmed'
+    );
+
+    let total = BigInt(0);
+    for (const { pubkey, account } of value) {
+        total += unpackAccount(pubkey, account, programId).amount;
     }
+
+    const raw = total.toString();
+    return {
+        raw,
+        ui: rawToUi(raw, decimals),
+    };
 }
 
 /**
@@ -136,10 +292,11 @@ export async function getTreasuryTokenBalance(connection: Connection): Promise<{
 }> {
     const config = getConfig();
     const decimals = await getTokenDecimals(connection);
-    const ata = await getAssociatedTokenAddress(config.tokenMint, config.treasuryPubkey);
+    const programId = await getTokenProgramId(connection);
+    const ata = await getAssociatedTokenAddress(config.tokenMint, config.treasuryPubkey, false, programId);
 
     try {
-        const account = await getAccount(connection, ata);
+        const account = await getAccount(connection, ata, 'confirmed', programId);
         return {
             raw: account.amount,
             ui: rawToUi(account.amount, decimals),
@@ -0,0 +1,216 @@
+import { Connection, GetProgramAccountsFilter, PublicKey } from '@solana/web3.js';
+import { getConfig } from './config';
+import { getHolder, updateHolderBalance, getBuysForWallet, upsertTokenAccount } from './db';
+import { processTransactions } from './scan';
+import { createTransactionSource, TransactionSource } from './sources';
+import { rawToUi, getTokenDecimals, getTokenProgramId, isToken2022 } from './token';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Token Account Snapshot
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Base token account size; mint is at offset 0, owner at 32, amount at 64 */
+const TOKEN_ACCOUNT_SIZE = 165;
+const OWNER_OFFSET = 32;
+
+export interface MintTokenAccount {
+    address: string;
+    owner: string;
+    amount: bigint;
+}
+
+/**
+ * List every token account for the mint with a single getProgramAccounts call.
+ * Only owner and amount are transferred (dataSlice).
+ */
+export async function fetchMintTokenAccounts(connection: Connection): Promise<MintTokenAccount[]> {
+    const config = getConfig();
+    const programId = await getTokenProgramId(connection);
+
+    const filters: GetProgramAccountsFilter[] = [
+        { memcmp: { offset: 0, bytes: config.tokenMint.toBase58() } },
+    ];
+    // Token-2022 accounts carry extensions after the base layout, so their size varies
+    if (!isToken2022(programId)) {
+        filters.push({ dataSize: TOKEN_ACCOUNT_SIZE });
+    }
+
+    const accounts = await connection.getProgramAccounts(programId, {
+        commitment: 'confirmed',
+        filters,
+        dataSlice: { offset: OWNER_OFFSET, length: 40 },
+    });
+
+    return accounts.map(({ pubkey, account }) => ({
+        address: pubkey.toBase58(),
+        owner: new PublicKey(account.data.subarray(0, 32)).toBase58(),
+        amount: account.data.readBigUInt64LE(32),
+    }));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Account-Based Bootstrap
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface AccountBootstrapResult {
+    tokenAccounts: number;
+    holdersSeeded: number;
+    newHolders: number;
+    programOwnedRaw: bigint;
+    circulatingRaw: bigint;
+    seededRaw: bigint;
+    withBuyHistoryRaw: bigint;
+    /** Share of circulating supply held by seeded wallets (0-1) */
+    coverage: number;
+    /** Share of circulating supply held by wallets with at least one recorded buy (0-1) */
+    buyHistoryCoverage: number;
+}
+
+/**
+ * Bootstrap holders from current on-chain token accounts instead of
+ * transaction history, so holders who bought long ago are not missed.
+ *
+ * 1. List every token account for the mint
+ * 2. Seed `holders` with owner and aggregated balance (program-owned
+ *    accounts such as the bonding curve and pools are skipped)
+ * 3. Backfill buy history per token account through the scan pipeline
+ * 4. Report what share of circulating supply is covered
+ */
+export async function bootstrapFromTokenAccounts(
+    connection: Connection,
+    source: TransactionSource = createTransactionSource(connection)
+): Promise<AccountBootstrapResult> {
+    const config = getConfig();
+    const decimals = await getTokenDecimals(connection);
+    const now = Math.floor(Date.now() / 1000);
+
+    console.log('[BOOTSTRAP] Listing token accounts for mint...');
+    const tokenAccounts = await fetchMintTokenAccounts(connection);
+    console.log(`[BOOTSTRAP] Found ${tokenAccounts.length} token accounts`);
+
+    // Aggregate balances per owner; off-curve owners are program PDAs
+    const byOwner = new Map<string, { amount: bigint; accounts: string[] }>();
+    let programOwnedRaw = BigInt(0);
+
+    for (const account of tokenAccounts) {
+        if (!PublicKey.isOnCurve(new PublicKey(account.owner).toBytes())) {
+            programOwnedRaw += account.amount;
+            continue;
+        }
+
+        upsertTokenAccount({
+            address: account.address,
+            owner: account.owner,
+            balance_raw: account.amount.toString(),
+            updated_ts: now,
+        });
+
+        const entry = byOwner.get(account.owner) ?? { amount: BigInt(0), accounts: [] };
+        entry.amount += account.amount;
+        entry.accounts.push(account.address);
+        byOwner.set(account.owner, entry);
+    }
+
+    // Seed holders
+    const treasury = config.treasuryPubkey.toBase58();
+    let holdersSeeded = 0;
+    let newHolders = 0;
+    let seededRaw = BigInt(0);
+
+    for (const [owner, entry] of byOwner) {
+        if (owner === treasury || entry.amount === BigInt(0)) continue;
+
+        const existing = getHolder(owner);
+        if (!existing) newHolders++;
+
+        updateHolderBalance(owner, entry.amount.toString(), now, existing?.last_balance_raw ?? null);
+        seededRaw += entry.amount;
+        holdersSeeded++;
+    }
+
+    console.log(`[BOOTSTRAP] Seeded ${holdersSeeded} holders (${newHolders} new)`);
+
+    // Backfill buy history per token account
+    let ownersDone = 0;
+    for (const [owner, entry] of byOwner) {
+        if (owner === treasury || entry.amount === BigInt(0)) continue;
+
+        for (const address of entry.accounts) {
+            try {
+                await backfillAccountHistory(connection, source, address, config.bootstrapHistoryPerAccount);
+            } catch (err) {
+                console.error(`[BOOTSTRAP] History backfill failed for ${owner.slice(0, 8)}...:`, err);
+            }
+        }
+
+        ownersDone++;
+        if (ownersDone % 50 === 0) {
+            console.log(`[BOOTSTRAP] Backfilled history for ${ownersDone}/${holdersSeeded} holders`);
+        }
+    }
+
+    // Coverage report
+    const supply = await connection.getTokenSupply(config.tokenMint);
+    const totalRaw = BigInt(supply.value.amount);
+    const treasuryRaw = byOwner.get(treasury)?.amount ?? BigInt(0);
+    const circulatingRaw = totalRaw - programOwnedRaw - treasuryRaw;
+
+    let withBuyHistoryRaw = BigInt(0);
+    for (const [owner, entry] of byOwner) {
+        if (owner === treasury) continue;
+        if (getBuysForWallet(owner).length > 0) {
+            withBuyHistoryRaw += entry.amount;
+        }
+    }
+
+    const share = (part: bigint): number =>
+        circulatingRaw > BigInt(0) ? Number((part * BigInt(1_000_000)) / circulatingRaw) / 1_000_000 : 0;
+
+    const result: AccountBootstrapResult = {
+        tokenAccounts: tokenAccounts.length,
+        holdersSeeded,
+        newHolders,
+        programOwnedRaw,
+        circulatingRaw,
+        seededRaw,
+        withBuyHistoryRaw,
+        coverage: share(seededRaw),
+        buyHistoryCoverage: share(withBuyHistoryRaw),
+    };
+
+    console.log('[BOOTSTRAP] Coverage report:');
+    console.log(`[BOOTSTRAP]   Total supply:        ${rawToUi(totalRaw, decimals)}`);
+    console.log(`[BOOTSTRAP]   Program-owned:       ${rawToUi(programOwnedRaw, decimals)} (bonding curve, pools)`);
+    console.log(`[BOOTSTRAP]   Circulating:         ${rawToUi(circulatingRaw, decimals)}`);
+    console.log(`[BOOTSTRAP]   Seeded holders:      ${(result.coverage * 100).toFixed(2)}% of circulating`);
+    console.log(`[BOOTSTRAP]   With buy history:    ${(result.buyHistoryCoverage * 100).toFixed(2)}% of circulating`);
+
+    return result;
+}
+
+/**
+ * Replay a token account's history through the scan pipeline.
+ */
+async function backfillAccountHistory(
+    connection: Connection,
+    source: TransactionSource,
+    address: string,
+    limit: number
+): Promise<void> {
+    let before: string | undefined = undefined;
+    let fetched = 0;
+
+    while (fetched < limit) {
+        const batchSize = Math.min(100, limit - fetched);
+        const page = await source.fetchTransactions(address, batchSize, before);
+
+        await processTransactions(connection, page.transactions, 'bootstrap');
+
+        fetched += batchSize;
+        before = page.paginationToken;
+        if (!before) break;
+
+        // Rate limiting
+        await new Promise(resolve => setTimeout(resolve, 200));
+    }
+}
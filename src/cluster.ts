@@ -0,0 +1,172 @@
+import { getConfig } from './config';
+import {
+    getAllHolders,
+    getAllWalletFunders,
+    getHolder,
+    getClusterMembers,
+    getHoldersPendingFunding,
+    setHolderClusters,
+    enqueueJob,
+} from './db';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Funding Graph
+// ─────────────────────────────────────────────────────────────────────────────
+
+const PENDING_FUNDING_PER_RUN = 20;
+
+interface FundingGraph {
+    /** wallet -> wallet that first funded it with SOL */
+    funders: Map<string, string>;
+    /** Funders that never link wallets (ignored or too many funded wallets) */
+    ignored: Set<string>;
+}
+
+function loadFundingGraph(): FundingGraph {
+    const config = getConfig();
+    const funders = new Map<string, string>();
+    const fanout = new Map<string, number>();
+
+    for (const row of getAllWalletFunders()) {
+        funders.set(row.wallet, row.funder!);
+        fanout.set(row.funder!, (fanout.get(row.funder!) ?? 0) + 1);
+    }
+
+    const ignored = new Set(config.clusterIgnoreFunders);
+    for (const [funder, count] of fanout) {
+        if (count > config.clusterMaxFunderFanout) ignored.add(funder);
+    }
+
+    return { funders, ignored };
+}
+
+/**
+ * Funders of a wallet, nearest first, up to `maxHops`. Stops at an ignored
+ * funder (exchanges, faucets) or a loop.
+ */
+function funderChain(graph: FundingGraph, wallet: string, maxHops: number): string[] {
+    const chain: string[] = [];
+    let current = wallet;
+
+    for (let hop = 0; hop < maxHops; hop++) {
+        const funder = graph.funders.get(current);
+        if (!funder || graph.ignored.has(funder) || funder === wallet || chain.includes(funder)) break;
+
+        chain.push(funder);
+        current = funder;
+    }
+
+    return chain;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cluster Assignment
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ClusterSummary {
+    clusters: number;
+    clusteredHolders: number;
+}
+
+/**
+ * Group holders into funding clusters and store the cluster id on each.
+ *
+ * Each holder is linked to every funder on its chain (up to
+ * `clusterMaxHops`), so holders sharing a funder within N hops, or funded by
+ * another holder, end up in the same cluster. Clusters with a single holder
+ * are not stored. A cluster's id is its lexicographically smallest member
+ * wallet, so it is stable for a given membership.
+ */
+export function assignClusters(): ClusterSummary {
+    const config = getConfig();
+    const graph = loadFundingGraph();
+    const parent = new Map<string, string>();
+
+    const find = (wallet: string): string => {
+        let root = wallet;
+        while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!;
+        parent.set(wallet, root);
+        return root;
+    };
+    const union = (a: string, b: string): void => {
+        const rootA = find(a);
+        const rootB = find(b);
+        if (rootA !== rootB) parent.set(rootA, rootB);
+    };
+
+    const holders = getAllHolders().map(h => h.wallet);
+    for (const wallet of holders) {
+        for (const funder of funderChain(graph, wallet, config.clusterMaxHops)) {
+            union(wallet, funder);
+        }
+    }
+
+    const members = new Map<string, string[]>();
+    for (const wallet of holders) {
+        const root = find(wallet);
+        members.set(root, [...(members.get(root) ?? []), wallet]);
+    }
+
+    const clusters = new Map<string, string>();
+    let clusterCount = 0;
+    for (const group of members.values()) {
+        if (group.length < 2) continue;
+
+        const clusterId = [...group].sort()[0];
+        for (const wallet of group) clusters.set(wallet, clusterId);
+        clusterCount++;
+    }
+
+    setHolderClusters(clusters);
+
+    if (clusterCount > 0) {
+        console.log(`[CLUSTER] ${clusters.size} holders in ${clusterCount} funding clusters`);
+    }
+
+    return { clusters: clusterCount, clusteredHolders: clusters.size };
+}
+
+/**
+ * Queue funding-source lookups for holders that have none yet. Returns the
+ * number of wallets newly queued.
+ */
+export function resumeFundingLookups(limit: number = PENDING_FUNDING_PER_RUN): number {
+    const pending = getHoldersPendingFunding(limit);
+    const queued = pending.filter(holder => enqueueJob('funding_source', holder.wallet, { hop: 1 })).length;
+
+    if (queued > 0) {
+        console.log(`[CLUSTER] Queued funding lookups for ${queued} holders`);
+    }
+
+    return queued;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cluster Membership
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ClusterMembership {
+    wallet: string;
+    clusterId: string | null;
+    /** Other holders in the same cluster */
+    otherMembers: string[];
+    /** The wallet's funders, nearest first */
+    funderChain: string[];
+}
+
+/**
+ * Describe a wallet's funding cluster, for eligibility explanations.
+ */
+export function describeCluster(wallet: string): ClusterMembership {
+    const config = getConfig();
+    const clusterId = getHolder(wallet)?.cluster_id ?? null;
+
+    return {
+        wallet,
+        clusterId,
+        otherMembers: clusterId
+            ? getClusterMembers(clusterId).map(h => h.wallet).filter(w => w !== wallet)
+            : [],
+        funderChain: funderChain(loadFundingGraph(), wallet, config.clusterMaxHops),
+    };
+}
@@ -2,6 +2,15 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { Keypair, PublicKey } from '@solana/web3.js';
 import * as dotenv from 'dotenv';
+import {
+    WeightStrategyName,
+    WeightParams,
+    WEIGHT_STRATEGY_NAMES,
+    DEFAULT_WEIGHT_PARAMS,
+    ClusterMode,
+    CooldownMode,
+} from './weights';
+import { DistributionMode, DISTRIBUTION_MODES } from './distribution';
 
 dotenv.config();
 
@@ -116,6 +125,16 @@ function loadKeypair(): Keypair {
 // Configuration Interface
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Where scanning reads transactions from:
+ * - helius: Helius enhanced transactions API
+ * - rpc:    plain JSON-RPC (getSignaturesForAddress + getParsedTransaction)
+ * - auto:   Helius, falling back to RPC on error
+ */
+export type TransactionSourceKind = 'helius' | 'rpc' | 'auto';
+
+export type ContinuityMode = 'strict' | 'tolerance' | 'proportional' | 'decay';
+
 export interface Config {
     // RPC
     rpcUrl: string;
@@ -123,6 +142,9 @@ export interface Config {
     // Helius API (explicit, separate from RPC)
     heliusApiKey: string;
 
+    // Transaction source for scanning
+    transactionSource: TransactionSourceKind;
+
     // Token
     tokenMint: PublicKey;
 
@@ -139,6 +161,29 @@ export interface Config {
     minContinuitySeconds: number;
     minCumulativeBuySol: number;
     winnersPerRound: number;
+    revealSlotDelay: number;
+    snapshotRawRetentionHours: number;
+
+    // Continuity policy
+    continuityMode: ContinuityMode;
+    continuityTolerancePercent: number;
+    continuityToleranceTokens: number;
+    continuityDecayHalfLifeHours: number;
+
+    // Sybil clustering
+    clusterMode: ClusterMode;
+    clusterMaxHops: number;
+    clusterMaxFunderFanout: number;
+    clusterIgnoreFunders: string[];
+
+    // Lottery weights
+    weightStrategy: WeightStrategyName;
+    weightParams: WeightParams;
+
+    // Winner cooldown
+    cooldownMode: CooldownMode;
+    cooldownRounds: number;
+    cooldownDecayFactor: number;
 
     // Treasury spend
     solFeeReserve: number;
@@ -150,10 +195,30 @@ export interface Config {
     rewardTokenPercentBps: number;
     maxRewardTokenPercentPerRound: number;
     maxSendsPerTx: number;
+    distributionMode: DistributionMode;
+    distributionTiers: number[];
+    distributionBasePercent: number;
+
+    // Win odds
+    oddsSimulations: number;
+    oddsExactMaxWallets: number;
 
     // Indexing
     bootstrapSignatureLimit: number;
+    bootstrapHistoryPerAccount: number;
     signatureScanLimitPerTick: number;
+    scanIntervalSeconds: number;
+
+    // Background job queue
+    jobConcurrency: number;
+    jobMaxAttempts: number;
+    jobRetryBaseSeconds: number;
+
+    // Streaming ingestion
+    streamingEnabled: boolean;
+    wsUrl: string;
+    streamStaleSeconds: number;
+    streamReconcileSeconds: number;
 
     // Operations
     dryRun: boolean;
@@ -161,6 +226,7 @@ export interface Config {
     // Status server
     statusServerPort: number;
     statusAllowedOrigin: string;
+    heliusWebhookSecret: string;
 
     // Safety rails
     minSolReserve: number;
@@ -178,9 +244,134 @@ export interface Config {
 // Build Configuration
 // ─────────────────────────────────────────────────────────────────────────────
 
+function parseTransactionSource(): TransactionSourceKind {
+    const value = optionalEnv('TRANSACTION_SOURCE', 'helius').toLowerCase();
+    if (value !== 'helius' && value !== 'rpc' && value !== 'auto') {
+        throw new Error(`Invalid TRANSACTION_SOURCE: ${value} (expected helius, rpc or auto)`);
+    }
+    return value;
+}
+
+function parseContinuityMode(): ContinuityMode {
+    const value = optionalEnv('CONTINUITY_MODE', 'strict').toLowerCase();
+    if (value !== 'strict' && value !== 'tolerance' && value !== 'proportional' && value !== 'decay') {
+        throw new Error(`Invalid CONTINUITY_MODE: ${value} (expected strict, tolerance, proportional or decay)`);
+    }
+    return value;
+}
+
+function parseClusterMode(): ClusterMode {
+    const value = optionalEnv('CLUSTER_MODE', 'off').toLowerCase();
+    if (value !== 'off' && value !== 'cap' && value !== 'split') {
+        throw new Error(`Invalid CLUSTER_MODE: ${value} (expected off, cap or split)`);
+    }
+    return value;
+}
+
+function parseCooldownMode(): CooldownMode {
+    const value = optionalEnv('COOLDOWN_MODE', 'off').toLowerCase();
+    if (value !== 'off' && value !== 'exclude' && value !== 'decay') {
+        throw new Error(`Invalid COOLDOWN_MODE: ${value} (expected off, exclude or decay)`);
+    }
+    return value;
+}
+
+function parseCooldownDecayFactor(): number {
+    const value = parseFloatEnv('COOLDOWN_DECAY_FACTOR', 0.25);
+    if (value < 0 || value > 1) {
+        throw new Error(`Invalid COOLDOWN_DECAY_FACTOR: ${value} (expected 0 to 1)`);
+    }
+    return value;
+}
+
+function parseWeightStrategy(): WeightStrategyName {
+    const value = optionalEnv('WEIGHT_STRATEGY', 'current').toLowerCase() as WeightStrategyName;
+    if (!WEIGHT_STRATEGY_NAMES.includes(value)) {
+        throw new Error(`Invalid WEIGHT_STRATEGY: ${value} (expected ${WEIGHT_STRATEGY_NAMES.join(', ')})`);
+    }
+    return value;
+}
+
+function parseWeightParams(strategy: WeightStrategyName): WeightParams {
+    const defaults = DEFAULT_WEIGHT_PARAMS;
+    return {
+        ageExponent: parseFloatEnv('WEIGHT_AGE_EXPONENT', defaults.ageExponent),
+        streakDivisor: parseFloatEnv('WEIGHT_STREAK_DIVISOR', defaults.streakDivisor),
+        streakCap: parseFloatEnv('WEIGHT_STREAK_CAP', defaults.streakCap),
+        twbCap: parseFloatEnv('WEIGHT_TWB_CAP', defaults.twbCap),
+        balanceCoefficient: parseFloatEnv('WEIGHT_BALANCE_COEFFICIENT', defaults.balanceCoefficient),
+        twbCoefficient: parseFloatEnv('WEIGHT_TWB_COEFFICIENT', defaults.twbCoefficient),
+        whaleCapTokens: parseFloatEnv('WEIGHT_WHALE_CAP_TOKENS', defaults.whaleCapTokens),
+        whaleExponent: parseFloatEnv('WEIGHT_WHALE_EXPONENT', defaults.whaleExponent),
+        // The cap of 10 belongs to the original formula; other strategies are uncapped by default
+        maxWeight: parseFloatEnv('WEIGHT_MAX', strategy === 'current' ? defaults.maxWeight : 0),
+    };
+}
+
+function parseDistributionMode(): DistributionMode {
+    const value = optionalEnv('DISTRIBUTION_MODE', 'equal').toLowerCase() as DistributionMode;
+    if (!DISTRIBUTION_MODES.includes(value)) {
+        throw new Error(`Invalid DISTRIBUTION_MODE: ${value} (expected ${DISTRIBUTION_MODES.join(', ')})`);
+    }
+    return value;
+}
+
+/**
+ * Tiers are fixed percents of the pot for the first draw positions, so in
+ * tiered mode there can be at most WINNERS_PER_ROUND of them, summing to at
+ * most 100. Checked here only: a round never fails on its tiers after the
+ * seed is revealed.
+ */
+function parseDistributionTiers(mode: DistributionMode, winnersPerRound: number): number[] {
+    const items = parseListEnv('DISTRIBUTION_TIERS');
+    const tiers = items.length > 0 ? items.map(Number) : [50, 30, 20];
+    if (tiers.some(tier => !Number.isFinite(tier) || tier <= 0)) {
+        throw new Error(`Invalid DISTRIBUTION_TIERS: ${items.join(',')} (expected positive percents, e.g. 50,30,20)`);
+    }
+    if (mode !== 'tiered') return tiers;
+
+    if (tiers.length > winnersPerRound) {
+        throw new Error(`Invalid DISTRIBUTION_TIERS: ${tiers.join(',')} ` +
+            `(expected at most one percent per winner, WINNERS_PER_ROUND=${winnersPerRound})`);
+    }
+    const sum = tiers.reduce((total, tier) => total + tier, 0);
+    if (sum > 100 + 1e-9) {
+        throw new Error(`Invalid DISTRIBUTION_TIERS: ${tiers.join(',')} (expected percents summing to at most 100, got ${sum})`);
+    }
+    return tiers;
+}
+
+function parseDistributionBasePercent(): number {
+    const value = parseFloatEnv('DISTRIBUTION_BASE_PERCENT', 50);
+    if (value < 0 || value > 100) {
+        throw new Error(`Invalid DISTRIBUTION_BASE_PERCENT: ${value} (expected 0 to 100)`);
+    }
+    return value;
+}
+
+function parseOddsExactMaxWallets(): number {
+    const value = parseIntEnv('ODDS_EXACT_MAX_WALLETS', 12);
+    if (value < 0 || value > 20) {
+        throw new Error(`Invalid ODDS_EXACT_MAX_WALLETS: ${value} (expected 0 to 20)`);
+    }
+    return value;
+}
+
+function parseListEnv(name: string): string[] {
+    return optionalEnv(name, '')
+        .split(',')
+        .map(item => item.trim())
+        .filter(item => item.length > 0);
+}
+
 function buildConfig(): Config {
     const rpcUrl = requireEnv('RPC_URL');
-    const heliusApiKey = requireEnv('HELIUS_API_KEY');
+    const transactionSource = parseTransactionSource();
+
+    // Helius key is only mandatory when the Helius API is used for scanning
+    const heliusApiKey = transactionSource === 'rpc'
+        ? optionalEnv('HELIUS_API_KEY', '')
+        : requireEnv('HELIUS_API_KEY');
     const tokenMintStr = requireEnv('TOKEN_MINT');
 
     // Validate token mint
@@ -191,6 +382,8 @@ function buildConfig(): Config {
         throw new Error(`Invalid TOKEN_MINT address: ${tokenMintStr}`);
     }
 
+    const weightStrategy = parseWeightStrategy();
+
     // Load treasury keypair (from env var or file)
     const treasuryKeypair = loadKeypair();
 
@@ -198,9 +391,13 @@ function buildConfig(): Config {
     const rewardTokenPercentBps = parseIntEnv('REWARD_TOKEN_PERCENT_BPS', 9000);
     const maxRewardTokenPercentPerRound = parseIntEnv('MAX_REWARD_TOKEN_PERCENT_PER_ROUND', 3000);
 
+    const winnersPerRound = parseIntEnv('WINNERS_PER_ROUND', 10);
+    const distributionMode = parseDistributionMode();
+
     return {
         rpcUrl,
         heliusApiKey,
+        transactionSource,
         tokenMint,
         treasuryKeypair,
         treasuryPubkey: treasuryKeypair.publicKey,
@@ -213,7 +410,30 @@ function buildConfig(): Config {
         walletMinAgeDays: parseIntEnv('WALLET_MIN_AGE_DAYS', 90),
         minContinuitySeconds: parseIntEnv('MIN_CONTINUITY_SECONDS', 7200),
         minCumulativeBuySol: parseFloatEnv('MIN_CUMULATIVE_BUY_SOL', 0.1),
-        winnersPerRound: parseIntEnv('WINNERS_PER_ROUND', 10),
+        winnersPerRound,
+        revealSlotDelay: parseIntEnv('REVEAL_SLOT_DELAY', 50),
+        snapshotRawRetentionHours: parseIntEnv('SNAPSHOT_RAW_RETENTION_HOURS', 48),
+
+        // Continuity policy
+        continuityMode: parseContinuityMode(),
+        continuityTolerancePercent: parseFloatEnv('CONTINUITY_TOLERANCE_PERCENT', 1),
+        continuityToleranceTokens: parseFloatEnv('CONTINUITY_TOLERANCE_TOKENS', 0),
+        continuityDecayHalfLifeHours: parseFloatEnv('CONTINUITY_DECAY_HALF_LIFE_HOURS', 24),
+
+        // Sybil clustering
+        clusterMode: parseClusterMode(),
+        clusterMaxHops: parseIntEnv('CLUSTER_MAX_HOPS', 2),
+        clusterMaxFunderFanout: parseIntEnv('CLUSTER_MAX_FUNDER_FANOUT', 25),
+        clusterIgnoreFunders: parseListEnv('CLUSTER_IGNORE_FUNDERS'),
+
+        // Lottery weights
+        weightStrategy,
+        weightParams: parseWeightParams(weightStrategy),
+
+        // Winner cooldown
+        cooldownMode: parseCooldownMode(),
+        cooldownRounds: parseIntEnv('COOLDOWN_ROUNDS', 3),
+        cooldownDecayFactor: parseCooldownDecayFactor(),
 
         // Treasury spend
         solFeeReserve: parseFloatEnv('SOL_FEE_RESERVE', 0.03),
@@ -225,10 +445,30 @@ function buildConfig(): Config {
         rewardTokenPercentBps: Math.min(rewardTokenPercentBps, maxRewardTokenPercentPerRound),
         maxRewardTokenPercentPerRound,
         maxSendsPerTx: parseIntEnv('MAX_SENDS_PER_TX', 6),
+        distributionMode,
+        distributionTiers: parseDistributionTiers(distributionMode, winnersPerRound),
+        distributionBasePercent: parseDistributionBasePercent(),
+
+        // Win odds
+        oddsSimulations: parseIntEnv('ODDS_SIMULATIONS', 10000),
+        oddsExactMaxWallets: parseOddsExactMaxWallets(),
 
         // Indexing
         bootstrapSignatureLimit: parseIntEnv('BOOTSTRAP_SIGNATURE_LIMIT', 5000),
+        bootstrapHistoryPerAccount: parseIntEnv('BOOTSTRAP_HISTORY_PER_ACCOUNT', 200),
         signatureScanLimitPerTick: parseIntEnv('SIGNATURE_SCAN_LIMIT_PER_TICK', 1000),
+        scanIntervalSeconds: parseIntEnv('SCAN_INTERVAL_SECONDS', 600),
+
+        // Background job queue
+        jobConcurrency: parseIntEnv('JOB_CONCURRENCY', 3),
+        jobMaxAttempts: parseIntEnv('JOB_MAX_ATTEMPTS', 5),
+        jobRetryBaseSeconds: parseIntEnv('JOB_RETRY_BASE_SECONDS', 30),
+
+        // Streaming ingestion
+        streamingEnabled: parseBoolEnv('STREAMING_ENABLED', false),
+        wsUrl: optionalEnv('WS_URL', ''),
+        streamStaleSeconds: parseIntEnv('STREAM_STALE_SECONDS', 30),
+        streamReconcileSeconds: parseIntEnv('STREAM_RECONCILE_SECONDS', 3600),
 
         // Operations
         dryRun: parseBoolEnv('DRY_RUN', false),
@@ -236,6 +476,7 @@ function buildConfig(): Config {
         // Status server
         statusServerPort: parseIntEnv('STATUS_SERVER_PORT', 3001),
         statusAllowedOrigin: optionalEnv('STATUS_ALLOWED_ORIGIN', '*'),
+        heliusWebhookSecret: optionalEnv('HELIUS_WEBHOOK_SECRET', ''),
 
         // Safety rails
         minSolReserve: parseFloatEnv('MIN_SOL_RESERVE', 0.05),
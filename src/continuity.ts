@@ -0,0 +1,212 @@
+import { Config, ContinuityMode } from './config';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Continuity Policy Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Which rule decided the outcome of a balance update */
+export type ContinuityRule =
+    | 'no_decrease'
+    | 'transfers_only'
+    | 'strict_reset'
+    | 'within_tolerance'
+    | 'proportional_penalty'
+    | 'decay_penalty';
+
+export interface ContinuityPolicy {
+    mode: ContinuityMode;
+    /** tolerance: decreases under this percent of the balance are ignored */
+    tolerancePercent: number;
+    /** tolerance: decreases under this many tokens are ignored (0 = off) */
+    toleranceTokens: number;
+    /** decay: hours for a sell's penalty to halve */
+    decayHalfLifeHours: number;
+}
+
+export interface ContinuityState {
+    continuityStartTs: number;
+    streakRounds: number;
+    twbScore: number;
+    lastDecreaseTs: number | null;
+    /** decay: penalty depth (0-1) at lastDecreaseTs */
+    lastDecreaseFraction: number;
+}
+
+export interface ContinuityOutcome {
+    rule: ContinuityRule;
+    continuityBroken: boolean;
+    state: ContinuityState;
+}
+
+export interface BalanceChange {
+    previousRaw: bigint;
+    currentRaw: bigint;
+    checkTs: number;
+    /** The decrease is fully covered by wallet-to-wallet transfers (no sells) */
+    explainedByTransfers: boolean;
+    /** Token decimals, needed for the token-amount tolerance */
+    decimals: number | null;
+}
+
+export function getContinuityPolicy(config: Config): ContinuityPolicy {
+    return {
+        mode: config.continuityMode,
+        tolerancePercent: config.continuityTolerancePercent,
+        toleranceTokens: config.continuityToleranceTokens,
+        decayHalfLifeHours: config.continuityDecayHalfLifeHours,
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Policy Evaluation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Decide what a balance change does to a holder's continuity, streak and TWB.
+ *
+ * Modes:
+ *   strict       - any decrease resets continuity, streak and TWB
+ *   tolerance    - decreases under X% or Y tokens are ignored, larger ones reset
+ *   proportional - streak and elapsed continuity are cut by the fraction sold
+ *                  (TWB follows, since it integrates over the continuity period)
+ *   decay        - streak and TWB carry a penalty equal to the fraction sold
+ *                  that halves every `decayHalfLifeHours`; only selling
+ *                  everything restarts continuity
+ *
+ * Decreases explained by transfers to another wallet never count as sells.
+ */
+export function applyContinuityPolicy(
+    policy: ContinuityPolicy,
+    state: ContinuityState,
+    change: BalanceChange
+): ContinuityOutcome {
+    const { previousRaw, currentRaw, checkTs } = change;
+
+    if (currentRaw >= previousRaw) {
+        return { rule: 'no_decrease', continuityBroken: false, state };
+    }
+
+    if (change.explainedByTransfers) {
+        return { rule: 'transfers_only', continuityBroken: false, state };
+    }
+
+    const decreaseRaw = previousRaw - currentRaw;
+    const fraction = Number((decreaseRaw * BigInt(1_000_000)) / previousRaw) / 1_000_000;
+    const soldAll = currentRaw === BigInt(0);
+
+    switch (policy.mode) {
+        case 'tolerance':
+            if (isWithinTolerance(policy, fraction, decreaseRaw, change.decimals)) {
+                return {
+                    rule: 'within_tolerance',
+                    continuityBroken: false,
+                    state: { ...state, lastDecreaseTs: checkTs },
+                };
+            }
+            return strictReset(state, checkTs);
+
+        case 'proportional': {
+            const keep = 1 - fraction;
+            const heldSeconds = Math.max(0, checkTs - state.continuityStartTs);
+            return {
+                rule: 'proportional_penalty',
+                continuityBroken: soldAll,
+                state: {
+                    ...state,
+                    continuityStartTs: checkTs - Math.floor(heldSeconds * keep),
+                    streakRounds: Math.floor(state.streakRounds * keep),
+                    twbScore: state.twbScore * keep,
+                    lastDecreaseTs: checkTs,
+                },
+            };
+        }
+
+        case 'decay': {
+            // Stack with whatever is left of an earlier penalty
+            const remaining = decayPenalty(policy, state.lastDecreaseTs, state.lastDecreaseFraction, checkTs);
+            return {
+                rule: 'decay_penalty',
+                continuityBroken: soldAll,
+                state: {
+                    ...state,
+                    // Selling out still restarts the holding period
+                    continuityStartTs: soldAll ? checkTs : state.continuityStartTs,
+                    lastDecreaseTs: checkTs,
+                    lastDecreaseFraction: 1 - (1 - remaining) * (1 - fraction),
+                },
+            };
+        }
+
+        case 'strict':
+        default:
+            return strictReset(state, checkTs);
+    }
+}
+
+function strictReset(state: ContinuityState, checkTs: number): ContinuityOutcome {
+    return {
+        rule: 'strict_reset',
+        continuityBroken: true,
+        state: {
+            ...state,
+            continuityStartTs: checkTs,
+            streakRounds: 0,
+            twbScore: 0,
+            lastDecreaseTs: checkTs,
+            lastDecreaseFraction: 0,
+        },
+    };
+}
+
+function isWithinTolerance(
+    policy: ContinuityPolicy,
+    fraction: number,
+    decreaseRaw: bigint,
+    decimals: number | null
+): boolean {
+    if (fraction * 100 < policy.tolerancePercent) {
+        return true;
+    }
+
+    if (policy.toleranceTokens > 0 && decimals !== null) {
+        const toleranceRaw = BigInt(Math.floor(policy.toleranceTokens * Math.pow(10, decimals)));
+        return decreaseRaw < toleranceRaw;
+    }
+
+    return false;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Decay
+// ─────────────────────────────────────────────────────────────────────────────
+
+function decayPenalty(
+    policy: ContinuityPolicy,
+    lastDecreaseTs: number | null,
+    lastDecreaseFraction: number,
+    now: number
+): number {
+    if (lastDecreaseTs === null || lastDecreaseFraction <= 0 || policy.decayHalfLifeHours <= 0) {
+        return 0;
+    }
+
+    const hours = Math.max(0, now - lastDecreaseTs) / 3600;
+    return lastDecreaseFraction * Math.pow(0.5, hours / policy.decayHalfLifeHours);
+}
+
+/**
+ * Multiplier (0-1) applied to streak and TWB when scoring. Always 1 outside
+ * decay mode.
+ */
+export function continuityCreditFactor(
+    policy: ContinuityPolicy,
+    lastDecreaseTs: number | null,
+    lastDecreaseFraction: number,
+    now: number
+): number {
+    if (policy.mode !== 'decay') {
+        return 1;
+    }
+
+    return 1 - decayPenalty(policy, lastDecreaseTs, lastDecreaseFraction, now);
+}
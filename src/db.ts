@@ -2,24 +2,37 @@ import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import { getConfig } from './config';
+import { isDecreaseExplainedByTransfers } from './activity';
+import { applyContinuityPolicy, getContinuityPolicy, ContinuityRule } from './continuity';
+import { getCachedTokenDecimals } from './token';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Database Interface Types
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Whether first_seen_ts is the wallet's first transaction or only the oldest seen so far */
+export type AgeStatus = 'exact' | 'lower_bound';
+
 export interface HolderRow {
     wallet: string;
     first_seen_ts: number | null;
+    age_status: AgeStatus | null;
+    /** Signature to resume age discovery from (paginating backwards) */
+    age_cursor: string | null;
     last_seen_ts: number | null;
     last_balance_raw: string | null;
     last_balance_check_ts: number | null;
     last_decrease_ts: number | null;
+    last_decrease_fraction: number;
+    last_continuity_rule: ContinuityRule | null;
     continuity_start_ts: number | null;
     streak_rounds: number;
     twb_score: number;
     cumulative_buy_sol: number;
     cumulative_buy_sol_low_confidence: number;
     is_blacklisted: number;
+    /** Funding cluster shared with other holders, null if not clustered */
+    cluster_id: string | null;
 }
 
 export interface RoundRow {
@@ -30,6 +43,131 @@ export interface RoundRow {
     meta_json: string;
 }
 
+export interface BuyRow {
+    signature: string;
+    wallet: string;
+    sol_spent: number;
+    token_received: number;
+    confidence: 'high' | 'medium' | 'low';
+    source: string;
+    ts: number;
+}
+
+export type HolderEventKind =
+    | 'buy'
+    | 'sell'
+    | 'transfer_in'
+    | 'transfer_out'
+    | 'airdrop'
+    | 'reward_received';
+
+export interface HolderEventRow {
+    signature: string;
+    wallet: string;
+    kind: HolderEventKind;
+    token_amount_raw: string;
+    counterparty: string | null;
+    ts: number;
+}
+
+export interface TokenAccountRow {
+    address: string;
+    owner: string;
+    balance_raw: string | null;
+    updated_ts: number | null;
+}
+
+export type SnapshotResolution = 'raw' | 'hour';
+
+export interface BalanceSnapshotRow {
+    wallet: string;
+    /** Observation time, or bucket start for hourly rows */
+    ts: number;
+    /** Observed balance, or closing balance for hourly rows */
+    balance_raw: string;
+    resolution: SnapshotResolution;
+    /** Hourly rows: sum of balance_raw × seconds over the covered span */
+    integral_raw: string | null;
+    /** Hourly rows: seconds of the hour covered by observations (ending at the hour's end) */
+    span_seconds: number | null;
+}
+
+export type JobType = 'wallet_age' | 'balance_refresh' | 'funding_source';
+export type JobStatus = 'pending' | 'running' | 'done' | 'dead';
+
+export interface JobRow {
+    id: number;
+    type: JobType;
+    /** Deduplication key, e.g. the wallet */
+    job_key: string;
+    payload_json: string;
+    status: JobStatus;
+    attempts: number;
+    run_after_ts: number;
+    last_error: string | null;
+    created_ts: number;
+    updated_ts: number;
+}
+
+export interface WalletFunderRow {
+    wallet: string;
+    funder: string | null;
+    first_signature: string | null;
+    /** Signature to resume the backwards walk from */
+    cursor: string | null;
+    /** Signature pages walked so far, across calls */
+    pages_walked: number;
+    resolved: number;
+    checked_ts: number | null;
+}
+
+export type CommitmentStatus = 'committed' | 'revealed' | 'paying' | 'completed';
+
+export interface RoundCommitmentRow {
+    round_id: string;
+    /** Hex SHA-256 of the published eligibility snapshot */
+    commitment: string;
+    target_slot: number;
+    /** Published EligibilitySnapshot (JSON) */
+    snapshot_json: string;
+    /** Full scored eligible set, to resume the round exactly (JSON) */
+    eligible_json: string;
+    status: CommitmentStatus;
+    /** First produced slot at or after target_slot */
+    reveal_slot: number | null;
+    blockhash: string | null;
+    seed: string | null;
+    created_ts: number;
+    revealed_ts: number | null;
+    /**
+     * Winners, amounts and confirmed transfer signatures, saved before the
+     * first transfer is sent (JSON, set once status is 'paying')
+     */
+    payout_json: string | null;
+}
+
+export interface RoundEntryRow {
+    round_id: string;
+    wallet: string;
+    weight: number;
+    /** Every factor that went into the weight, by name (JSON) */
+    weight_factors_json: string;
+    wallet_age_days: number;
+    streak_rounds: number;
+    twb_score: number;
+    token_balance_raw: string;
+    token_balance_ui: number;
+    cluster_id: string | null;
+    won: number;
+    reward_amount_raw: string;
+}
+
+export interface StoredTransactionRow {
+    signature: string;
+    ts: number;
+    tx_json: string;
+}
+
 export interface ScanStateRow {
     key: string;
     value: string;
@@ -50,10 +188,14 @@ const SCHEMA = `
 CREATE TABLE IF NOT EXISTS holders (
   wallet TEXT PRIMARY KEY,
   first_seen_ts INTEGER,
+  age_status TEXT,
+  age_cursor TEXT,
   last_seen_ts INTEGER,
   last_balance_raw TEXT,
   last_balance_check_ts INTEGER,
   last_decrease_ts INTEGER,
+  last_decrease_fraction REAL DEFAULT 0.0,
+  last_continuity_rule TEXT,
   continuity_start_ts INTEGER,
   streak_rounds INTEGER DEFAULT 0,
   twb_score REAL DEFAULT 0.0,
@@ -71,6 +213,124 @@ CREATE TABLE IF NOT EXISTS rounds (
   meta_json TEXT
 );
 
+-- Buy ledger: one row per detected buy, cumulative totals are derived from it
+CREATE TABLE IF NOT EXISTS buys (
+  signature TEXT NOT NULL,
+  wallet TEXT NOT NULL,
+  sol_spent REAL NOT NULL,
+  token_received REAL NOT NULL,
+  confidence TEXT NOT NULL,
+  source TEXT,
+  ts INTEGER NOT NULL,
+  UNIQUE(signature, wallet)
+);
+
+-- Holder events: per-wallet activity timeline classified from mint transactions
+CREATE TABLE IF NOT EXISTS holder_events (
+  signature TEXT NOT NULL,
+  wallet TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  token_amount_raw TEXT NOT NULL,
+  counterparty TEXT,
+  ts INTEGER NOT NULL,
+  UNIQUE(signature, wallet, kind)
+);
+
+-- Processed signatures: every mint transaction applied to holder state, by any ingestion path
+CREATE TABLE IF NOT EXISTS processed_signatures (
+  signature TEXT PRIMARY KEY,
+  via TEXT NOT NULL,
+  processed_ts INTEGER NOT NULL
+);
+
+-- Transaction archive: normalized mint transactions as ingested, replayed by --rebuild
+CREATE TABLE IF NOT EXISTS transactions (
+  signature TEXT PRIMARY KEY,
+  ts INTEGER NOT NULL,
+  tx_json TEXT NOT NULL
+);
+
+-- Token accounts: every known token account for the mint and its owner, with the last read balance
+CREATE TABLE IF NOT EXISTS token_accounts (
+  address TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,
+  balance_raw TEXT,
+  updated_ts INTEGER
+);
+
+-- Balance snapshots: every holder balance observed by a refresh ('raw'),
+-- compacted into hourly buckets ('hour') holding the integral over the hour
+CREATE TABLE IF NOT EXISTS balance_snapshots (
+  wallet TEXT NOT NULL,
+  ts INTEGER NOT NULL,
+  balance_raw TEXT NOT NULL,
+  resolution TEXT NOT NULL DEFAULT 'raw',
+  integral_raw TEXT,
+  span_seconds INTEGER,
+  PRIMARY KEY (wallet, ts)
+);
+
+-- Job queue: background work (wallet age, balance refresh, funding lookup)
+-- retried with backoff and dead-lettered after max attempts
+CREATE TABLE IF NOT EXISTS jobs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  type TEXT NOT NULL,
+  job_key TEXT NOT NULL,
+  payload_json TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  run_after_ts INTEGER NOT NULL,
+  last_error TEXT,
+  created_ts INTEGER NOT NULL,
+  updated_ts INTEGER NOT NULL
+);
+
+-- Wallet funders: who first sent SOL to a wallet (holders and their funders)
+CREATE TABLE IF NOT EXISTS wallet_funders (
+  wallet TEXT PRIMARY KEY,
+  funder TEXT,
+  first_signature TEXT,
+  cursor TEXT,
+  pages_walked INTEGER NOT NULL DEFAULT 0,
+  resolved INTEGER NOT NULL DEFAULT 0,
+  checked_ts INTEGER
+);
+
+-- Round commitments: eligible-set snapshot and target slot committed before
+-- a reward round's seed is known (commit-reveal)
+CREATE TABLE IF NOT EXISTS round_commitments (
+  round_id TEXT PRIMARY KEY,
+  commitment TEXT NOT NULL,
+  target_slot INTEGER NOT NULL,
+  snapshot_json TEXT NOT NULL,
+  eligible_json TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'committed',
+  reveal_slot INTEGER,
+  blockhash TEXT,
+  seed TEXT,
+  created_ts INTEGER NOT NULL,
+  revealed_ts INTEGER,
+  payout_json TEXT
+);
+
+-- Round entries: every wallet in a reward round's draw, with its weight
+-- breakdown and outcome (the leaves of the round's entries Merkle root)
+CREATE TABLE IF NOT EXISTS round_entries (
+  round_id TEXT NOT NULL,
+  wallet TEXT NOT NULL,
+  weight REAL NOT NULL,
+  weight_factors_json TEXT NOT NULL,
+  wallet_age_days REAL NOT NULL,
+  streak_rounds INTEGER NOT NULL,
+  twb_score REAL NOT NULL,
+  token_balance_raw TEXT NOT NULL,
+  token_balance_ui REAL NOT NULL,
+  cluster_id TEXT,
+  won INTEGER NOT NULL DEFAULT 0,
+  reward_amount_raw TEXT NOT NULL DEFAULT '0',
+  PRIMARY KEY (round_id, wallet)
+);
+
 -- Scan state: tracks indexing progress
 CREATE TABLE IF NOT EXISTS scan_state (
   key TEXT PRIMARY KEY,
@@ -96,6 +356,22 @@ CREATE INDEX IF NOT EXISTS idx_holders_eligible ON holders(
 );
 
 CREATE INDEX IF NOT EXISTS idx_rounds_type_ts ON rounds(type, ts);
+
+CREATE INDEX IF NOT EXISTS idx_round_entries_wallet ON round_entries(wallet);
+
+CREATE INDEX IF NOT EXISTS idx_buys_wallet_ts ON buys(wallet, ts);
+
+CREATE INDEX IF NOT EXISTS idx_holder_events_wallet_ts ON holder_events(wallet, ts);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_ts ON transactions(ts, signature);
+
+CREATE INDEX IF NOT EXISTS idx_token_accounts_owner ON token_accounts(owner);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_run_after ON jobs(status, run_after_ts);
+
+-- At most one live (pending/running) job per type and key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_live_key ON jobs(type, job_key)
+  WHERE status IN ('pending', 'running');
 `;
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -104,25 +380,91 @@ CREATE INDEX IF NOT EXISTS idx_rounds_type_ts ON rounds(type, ts);
 
 let _db: Database.Database | null = null;
 
-export function initDb(): Database.Database {
+/**
+ * Open the database. `dbPath` defaults to the configured path; the rebuild
+ * command uses it to work on a copy.
+ */
+export function initDb(dbPath: string = getConfig().dbPath): Database.Database {
     if (_db) return _db;
 
-    const config = getConfig();
-
     // Ensure data directory exists
-    const dataDir = path.dirname(config.dbPath);
+    const dataDir = path.dirname(dbPath);
     if (!fs.existsSync(dataDir)) {
         fs.mkdirSync(dataDir, { recursive: true });
     }
 
-    _db = new Database(config.dbPath);
+    _db = new Database(dbPath);
     _db.pragma('journal_mode = WAL');
+    const needsLedgerSeed = tableExists(_db, 'holders') && !tableExists(_db, 'buys');
     _db.exec(SCHEMA);
+    migrateSchema(_db);
+    if (needsLedgerSeed) {
+        seedLegacyBuyTotals(_db);
+    }
 
-    console.log(`[DB] Initialized database at ${config.dbPath}`);
+    console.log(`[DB] Initialized database at ${dbPath}`);
     return _db;
 }
 
+/** Columns added after the first release: [table, column, definition] */
+const ADDED_COLUMNS: [string, string, string][] = [
+    ['holders', 'last_decrease_fraction', 'REAL DEFAULT 0.0'],
+    ['holders', 'last_continuity_rule', 'TEXT'],
+    ['holders', 'age_status', 'TEXT'],
+    ['holders', 'age_cursor', 'TEXT'],
+    ['holders', 'cluster_id', 'TEXT'],
+    ['round_commitments', 'payout_json', 'TEXT'],
+    ['wallet_funders', 'pages_walked', 'INTEGER NOT NULL DEFAULT 0'],
+];
+
+/**
+ * Add columns that `CREATE TABLE IF NOT EXISTS` cannot add to existing databases.
+ */
+function migrateSchema(db: Database.Database): void {
+    for (const [table, column, definition] of ADDED_COLUMNS) {
+        const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+        if (!columns.some(c => c.name === column)) {
+            db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+            console.log(`[DB] Added column ${table}.${column}`);
+        }
+    }
+}
+
+function tableExists(db: Database.Database, table: string): boolean {
+    return db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(table) !== undefined;
+}
+
+/** Source of the buy rows carrying over totals recorded before the ledger existed */
+export const LEGACY_BUY_SOURCE = 'legacy_carryover';
+
+/**
+ * Carry the cumulative buy totals of a database that predates the buy ledger
+ * into it, one row per wallet and confidence, stamped with the upgrade time.
+ * The old totals do not say which signatures they cover, so the carry-over
+ * is a floor for the buys ledgered up to the upgrade rather than an extra
+ * buy (see `recomputeBuyTotals`): re-running bootstrap never counts an old
+ * buy twice.
+ */
+function seedLegacyBuyTotals(db: Database.Database): void {
+    const upgradeTs = Math.floor(Date.now() / 1000);
+
+    const seed = db.transaction((): number => {
+        const high = db.prepare(`
+            INSERT OR IGNORE INTO buys (signature, wallet, sol_spent, token_received, confidence, source, ts)
+            SELECT 'legacy-carryover', wallet, cumulative_buy_sol, 0, 'high', ?, ?
+            FROM holders WHERE cumulative_buy_sol > 0
+        `).run(LEGACY_BUY_SOURCE, upgradeTs);
+        const low = db.prepare(`
+            INSERT OR IGNORE INTO buys (signature, wallet, sol_spent, token_received, confidence, source, ts)
+            SELECT 'legacy-carryover-low', wallet, cumulative_buy_sol_low_confidence, 0, 'low', ?, ?
+            FROM holders WHERE cumulative_buy_sol_low_confidence > 0
+        `).run(LEGACY_BUY_SOURCE, upgradeTs);
+        return high.changes + low.changes;
+    });
+
+    console.log(`[DB] Seeded buy ledger with ${seed()} legacy carry-over rows`);
+}
+
 export function getDb(): Database.Database {
     if (!_db) {
         return initDb();
@@ -407,13 +749,65 @@ export function getAllHolders(): HolderRow[] {
     return db.prepare('SELECT * FROM holders').all() as HolderRow[];
 }
 
+/**
+ * Holders whose age is not yet known to be old enough: no exact age and a
+ * lower bound (if any) newer than `minAgeTs`. With `includeOldLowerBounds`,
+ * every holder without an exact age. Holders with a balance first.
+ */
+export function getHoldersPendingAge(minAgeTs: number, limit: number, includeOldLowerBounds: boolean = false): HolderRow[] {
+    const db = getDb();
+    return db.prepare(`
+    SELECT * FROM holders
+    WHERE is_blacklisted = 0
+      AND (age_status IS NULL OR age_status != 'exact')
+      AND (first_seen_ts IS NULL OR first_seen_ts > ? OR ? = 1)
+    ORDER BY (last_balance_raw IS NOT NULL AND CAST(last_balance_raw AS INTEGER) > 0) DESC, last_seen_ts DESC
+    LIMIT ?
+  `).all(minAgeTs, includeOldLowerBounds ? 1 : 0, limit) as HolderRow[];
+}
+
+/**
+ * Holders with no funding-source lookup on record yet, current holders first.
+ */
+export function getHoldersPendingFunding(limit: number): HolderRow[] {
+    const db = getDb();
+    return db.prepare(`
+    SELECT h.* FROM holders h
+    LEFT JOIN wallet_funders f ON f.wallet = h.wallet
+    WHERE h.is_blacklisted = 0 AND f.wallet IS NULL
+    ORDER BY (h.last_balance_raw IS NOT NULL AND CAST(h.last_balance_raw AS INTEGER) > 0) DESC, h.last_seen_ts DESC
+    LIMIT ?
+  `).all(limit) as HolderRow[];
+}
+
+/**
+ * Replace every holder's cluster id in one transaction. Holders missing
+ * from `clusters` are unclustered.
+ */
+export function setHolderClusters(clusters: Map<string, string>): void {
+    const db = getDb();
+    const assign = db.prepare('UPDATE holders SET cluster_id = ? WHERE wallet = ?');
+
+    db.transaction(() => {
+        db.prepare('UPDATE holders SET cluster_id = NULL WHERE cluster_id IS NOT NULL').run();
+        for (const [wallet, clusterId] of clusters) {
+            assign.run(clusterId, wallet);
+        }
+    })();
+}
+
+export function getClusterMembers(clusterId: string): HolderRow[] {
+    const db = getDb();
+    return db.prepare('SELECT * FROM holders WHERE cluster_id = ? ORDER BY wallet').all(clusterId) as HolderRow[];
+}
+
 export function getEligibleHolders(
     minAgeDays: number,
     minContinuitySeconds: number,
-    minCumulativeBuySol: number
+    minCumulativeBuySol: number,
+    now: number = Math.floor(Date.now() / 1000)
 ): HolderRow[] {
     const db = getDb();
-    const now = Math.floor(Date.now() / 1000);
     const minAgeTs = now - (minAgeDays * 24 * 60 * 60);
     const minContinuityTs = now - minContinuitySeconds;
 
@@ -432,78 +826,596 @@ export function getEligibleHolders(
     return db.prepare(sql).all(minAgeTs, minContinuityTs, minCumulativeBuySol) as HolderRow[];
 }
 
+export interface BalanceUpdateOutcome {
+    continuityBroken: boolean;
+    rule: ContinuityRule;
+}
+
+/**
+ * Record an observed balance and apply the configured continuity policy.
+ * The rule that fired is stored on the holder and returned.
+ */
 export function updateHolderBalance(
     wallet: string,
     balanceRaw: string,
     checkTs: number,
     previousBalanceRaw: string | null
-): void {
-    const db = getDb();
+): BalanceUpdateOutcome {
     const holder = getHolder(wallet);
 
     const currentBalance = BigInt(balanceRaw);
     const prevBalance = previousBalanceRaw ? BigInt(previousBalanceRaw) : BigInt(0);
 
-    let continuityStartTs = holder?.continuity_start_ts ?? checkTs;
-    let streakRounds = holder?.streak_rounds ?? 0;
-    let twbScore = holder?.twb_score ?? 0;
-
-    // Check for balance decrease (selling)
+    // A decrease only counts as selling if the activity timeline does not
+    // show it was moved out by transfers (no sells) since the last check
+    let explainedByTransfers = false;
     if (currentBalance < prevBalance) {
-        // Reset continuity and streak on sell
-        continuityStartTs = checkTs;
-        streakRounds = 0;
-        twbScore = 0;
+        const events = getHolderEventsSince(wallet, holder?.last_balance_check_ts ?? 0);
+        explainedByTransfers = isDecreaseExplainedByTransfers(events, prevBalance - currentBalance);
     }
 
+    const outcome = applyContinuityPolicy(
+        getContinuityPolicy(getConfig()),
+        {
+            continuityStartTs: holder?.continuity_start_ts ?? checkTs,
+            streakRounds: holder?.streak_rounds ?? 0,
+            twbScore: holder?.twb_score ?? 0,
+            lastDecreaseTs: holder?.last_decrease_ts ?? null,
+            lastDecreaseFraction: holder?.last_decrease_fraction ?? 0,
+        },
+        {
+            previousRaw: prevBalance,
+            currentRaw: currentBalance,
+            checkTs,
+            explainedByTransfers,
+            decimals: getCachedTokenDecimals(),
+        }
+    );
+
     upsertHolder(wallet, {
         last_balance_raw: balanceRaw,
         last_balance_check_ts: checkTs,
-        last_decrease_ts: currentBalance < prevBalance ? checkTs : holder?.last_decrease_ts ?? null,
-        continuity_start_ts: continuityStartTs,
-        streak_rounds: streakRounds,
-        twb_score: twbScore,
+        last_decrease_ts: outcome.state.lastDecreaseTs,
+        last_decrease_fraction: outcome.state.lastDecreaseFraction,
+        last_continuity_rule: outcome.rule,
+        continuity_start_ts: outcome.state.continuityStartTs,
+        streak_rounds: outcome.state.streakRounds,
+        twb_score: outcome.state.twbScore,
         last_seen_ts: checkTs,
     });
+
+    return { continuityBroken: outcome.continuityBroken, rule: outcome.rule };
 }
 
-export function incrementBuySol(
-    wallet: string,
-    solAmount: number,
-    highConfidence: boolean
-): void {
+export interface BalanceObservation {
+    wallet: string;
+    balanceRaw: string;
+}
+
+export interface AppliedBalanceUpdate extends BalanceUpdateOutcome {
+    wallet: string;
+    balanceRaw: string;
+    previousBalanceRaw: string | null;
+}
+
+/**
+ * Apply many balance observations, plus the per-account balances they were
+ * summed from and the refresh's balance snapshots, in a single SQLite transaction.
+ *
+ * The previous balance is re-read inside the transaction, so a decrease
+ * already applied by another writer is never penalized twice. Returns the
+ * observations that changed a balance, with their continuity outcome.
+ */
+export function updateHolderBalances(
+    observations: BalanceObservation[],
+    checkTs: number,
+    tokenAccounts: TokenAccountRow[] = [],
+    snapshots: BalanceSnapshotRow[] = []
+): AppliedBalanceUpdate[] {
     const db = getDb();
-    const holder = getHolder(wallet);
+    const apply = db.transaction((): AppliedBalanceUpdate[] => {
+        for (const account of tokenAccounts) {
+            upsertTokenAccount(account);
+        }
+        for (const snapshot of snapshots) {
+            insertBalanceSnapshot(snapshot);
+        }
+
+        const applied: AppliedBalanceUpdate[] = [];
+        for (const row of observations) {
+            const previousBalanceRaw = getHolder(row.wallet)?.last_balance_raw ?? null;
+            if (previousBalanceRaw === row.balanceRaw) continue;
+
+            const outcome = updateHolderBalance(row.wallet, row.balanceRaw, checkTs, previousBalanceRaw);
+            applied.push({ ...row, previousBalanceRaw, ...outcome });
+        }
+        return applied;
+    });
 
-    if (highConfidence) {
-        const currentBuy = holder?.cumulative_buy_sol ?? 0;
-        upsertHolder(wallet, {
-            cumulative_buy_sol: currentBuy + solAmount,
-        });
-    } else {
-        const currentLowConf = holder?.cumulative_buy_sol_low_confidence ?? 0;
-        upsertHolder(wallet, {
-            cumulative_buy_sol_low_confidence: currentLowConf + solAmount,
-        });
-    }
+    return apply();
 }
 
-export function updateStreakAndTwb(
-    wallet: string,
-    tokenBalanceUi: number,
-    rewardIntervalSeconds: number
-): void {
+/**
+ * Record a detected buy in the ledger and re-derive the wallet's totals.
+ * Idempotent per (signature, wallet): replaying the same transaction never
+ * double-counts. A re-detection with higher confidence upgrades the row.
+ * Returns true if the ledger changed.
+ */
+export function recordBuy(buy: BuyRow): boolean {
+    const db = getDb();
+
+    const apply = db.transaction((row: BuyRow): boolean => {
+        const result = db.prepare(`
+            INSERT INTO buys (signature, wallet, sol_spent, token_received, confidence, source, ts)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(signature, wallet) DO UPDATE SET
+              sol_spent = excluded.sol_spent,
+              token_received = excluded.token_received,
+              confidence = excluded.confidence,
+              source = excluded.source
+            WHERE ${confidenceRankSql('excluded.confidence')} > ${confidenceRankSql('buys.confidence')}
+        `).run(row.signature, row.wallet, row.sol_spent, row.token_received, row.confidence, row.source, row.ts);
+
+        if (result.changes === 0) {
+            return false;
+        }
+
+        recomputeBuyTotals(row.wallet);
+        return true;
+    });
+
+    return apply(buy);
+}
+
+function confidenceRankSql(column: string): string {
+    return `(CASE ${column} WHEN 'high' THEN 3 WHEN 'medium' THEN 2 ELSE 1 END)`;
+}
+
+/**
+ * Re-derive cumulative buy totals for a wallet from the buy ledger.
+ * Only high-confidence buys count toward eligibility.
+ *
+ * A legacy carry-over row (databases upgraded from before the ledger) covers
+ * the buys up to the upgrade without naming them: per confidence, the total
+ * is max(carry-over, ledgered buys up to the upgrade) + buys after it.
+ */
+export function recomputeBuyTotals(wallet: string): void {
+    const db = getDb();
+    const rows = db.prepare(`
+        SELECT confidence = 'high' AS high, source = ? AS legacy, sol_spent, ts FROM buys WHERE wallet = ?
+    `).all(LEGACY_BUY_SOURCE, wallet) as { high: number; legacy: number; sol_spent: number; ts: number }[];
+
+    const total = (high: number): number => {
+        const group = rows.filter(r => r.high === high);
+        const carryOver = group.find(r => r.legacy === 1);
+        const buys = group.filter(r => r.legacy === 0);
+        const sum = (list: typeof buys): number => list.reduce((acc, r) => acc + r.sol_spent, 0);
+
+        if (!carryOver) return sum(buys);
+        return Math.max(carryOver.sol_spent, sum(buys.filter(r => r.ts <= carryOver.ts))) +
+            sum(buys.filter(r => r.ts > carryOver.ts));
+    };
+
+    upsertHolder(wallet, {
+        cumulative_buy_sol: total(1),
+        cumulative_buy_sol_low_confidence: total(0),
+    });
+}
+
+/**
+ * Get the buy ledger for a wallet, oldest first.
+ */
+export function getBuysForWallet(wallet: string): BuyRow[] {
+    const db = getDb();
+    return db.prepare('SELECT * FROM buys WHERE wallet = ? ORDER BY ts ASC').all(wallet) as BuyRow[];
+}
+
+/**
+ * Count another round of eligibility and store the holder's current TWB.
+ */
+export function updateStreakAndTwb(wallet: string, twbScore: number): void {
     const holder = getHolder(wallet);
     if (!holder) return;
 
-    const twbIncrement = tokenBalanceUi * (rewardIntervalSeconds / 3600);
-
     upsertHolder(wallet, {
         streak_rounds: holder.streak_rounds + 1,
-        twb_score: holder.twb_score + twbIncrement,
+        twb_score: twbScore,
     });
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Holder Event Queries
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Record a classified holder event. Returns false if already recorded.
+ */
+export function insertHolderEvent(event: HolderEventRow): boolean {
+    const db = getDb();
+    const result = db.prepare(`
+        INSERT OR IGNORE INTO holder_events (signature, wallet, kind, token_amount_raw, counterparty, ts)
+        VALUES (?, ?, ?, ?, ?, ?)
+    `).run(event.signature, event.wallet, event.kind, event.token_amount_raw, event.counterparty, event.ts);
+
+    return result.changes > 0;
+}
+
+/**
+ * Get a wallet's events at or after a timestamp, oldest first.
+ */
+export function getHolderEventsSince(wallet: string, sinceTs: number): HolderEventRow[] {
+    const db = getDb();
+    return db.prepare(`
+        SELECT * FROM holder_events WHERE wallet = ? AND ts >= ? ORDER BY ts ASC
+    `).all(wallet, sinceTs) as HolderEventRow[];
+}
+
+/**
+ * Get a wallet's full activity timeline, newest first.
+ */
+export function getHolderTimeline(wallet: string, limit: number = 100): HolderEventRow[] {
+    const db = getDb();
+    return db.prepare(`
+        SELECT * FROM holder_events WHERE wallet = ? ORDER BY ts DESC LIMIT ?
+    `).all(wallet, limit) as HolderEventRow[];
+}
+
+/**
+ * Get all events recorded for one transaction.
+ */
+export function getHolderEventsBySignature(signature: string): HolderEventRow[] {
+    const db = getDb();
+    return db.prepare('SELECT * FROM holder_events WHERE signature = ?').all(signature) as HolderEventRow[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Token Account Index
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Remember a token account seen for the mint. Ownership can be reassigned
+ * on-chain, so the latest owner wins.
+ */
+export function recordTokenAccount(address: string, owner: string): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT INTO token_accounts (address, owner)
+        VALUES (?, ?)
+        ON CONFLICT(address) DO UPDATE SET owner = excluded.owner
+    `).run(address, owner);
+}
+
+export function upsertTokenAccount(account: TokenAccountRow): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT INTO token_accounts (address, owner, balance_raw, updated_ts)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(address) DO UPDATE SET
+          owner = excluded.owner,
+          balance_raw = excluded.balance_raw,
+          updated_ts = excluded.updated_ts
+    `).run(account.address, account.owner, account.balance_raw, account.updated_ts);
+}
+
+export function getAllTokenAccounts(): TokenAccountRow[] {
+    const db = getDb();
+    return db.prepare('SELECT * FROM token_accounts').all() as TokenAccountRow[];
+}
+
+/**
+ * Get where a wallet's balance lives, largest account first.
+ */
+export function getTokenAccountsForWallet(wallet: string): TokenAccountRow[] {
+    const db = getDb();
+    return db.prepare(`
+        SELECT * FROM token_accounts WHERE owner = ?
+        ORDER BY CAST(COALESCE(balance_raw, '0') AS INTEGER) DESC
+    `).all(wallet) as TokenAccountRow[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Balance Snapshots
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function insertBalanceSnapshot(snapshot: BalanceSnapshotRow): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT OR REPLACE INTO balance_snapshots (wallet, ts, balance_raw, resolution, integral_raw, span_seconds)
+        VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+        snapshot.wallet,
+        snapshot.ts,
+        snapshot.balance_raw,
+        snapshot.resolution,
+        snapshot.integral_raw,
+        snapshot.span_seconds
+    );
+}
+
+/**
+ * Get the snapshots needed to integrate a wallet's balance over
+ * [fromTs, toTs): the last row at or before fromTs (the balance in effect
+ * at the start) and everything after it, oldest first.
+ */
+export function getBalanceSnapshots(wallet: string, fromTs: number, toTs: number): BalanceSnapshotRow[] {
+    const db = getDb();
+    return db.prepare(`
+        SELECT * FROM balance_snapshots
+        WHERE wallet = ?
+          AND ts >= COALESCE((SELECT MAX(ts) FROM balance_snapshots WHERE wallet = ? AND ts <= ?), 0)
+          AND ts < ?
+        ORDER BY ts ASC
+    `).all(wallet, wallet, fromTs, toTs) as BalanceSnapshotRow[];
+}
+
+/**
+ * Wallets that still have raw snapshots older than a timestamp.
+ */
+export function getWalletsWithRawSnapshotsBefore(beforeTs: number): string[] {
+    const db = getDb();
+    const rows = db.prepare(`
+        SELECT DISTINCT wallet FROM balance_snapshots WHERE resolution = 'raw' AND ts < ?
+    `).all(beforeTs) as { wallet: string }[];
+    return rows.map(r => r.wallet);
+}
+
+/**
+ * Get a wallet's raw snapshots older than a timestamp, plus the row just
+ * before the first of them (for the balance carried into the first hour).
+ */
+export function getRawSnapshotsBefore(wallet: string, beforeTs: number): {
+    previous: BalanceSnapshotRow | undefined;
+    raw: BalanceSnapshotRow[];
+} {
+    const db = getDb();
+    const raw = db.prepare(`
+        SELECT * FROM balance_snapshots
+        WHERE wallet = ? AND resolution = 'raw' AND ts < ?
+        ORDER BY ts ASC
+    `).all(wallet, beforeTs) as BalanceSnapshotRow[];
+
+    const previous = raw.length === 0 ? undefined : db.prepare(`
+        SELECT * FROM balance_snapshots WHERE wallet = ? AND ts < ? ORDER BY ts DESC LIMIT 1
+    `).get(wallet, raw[0].ts) as BalanceSnapshotRow | undefined;
+
+    return { previous, raw };
+}
+
+/**
+ * Swap a wallet's raw snapshots older than a timestamp for hourly buckets, atomically.
+ */
+export function replaceRawSnapshots(wallet: string, beforeTs: number, buckets: BalanceSnapshotRow[]): void {
+    const db = getDb();
+    const apply = db.transaction(() => {
+        db.prepare(`
+            DELETE FROM balance_snapshots WHERE wallet = ? AND resolution = 'raw' AND ts < ?
+        `).run(wallet, beforeTs);
+
+        for (const bucket of buckets) {
+            insertBalanceSnapshot(bucket);
+        }
+    });
+
+    apply();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Job Queue
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Queue a job. No-op (returns false) if a pending or running job with the
+ * same type and key already exists.
+ */
+export function enqueueJob(type: JobType, key: string, payload: object = {}, runAfterTs?: number): boolean {
+    const db = getDb();
+    const now = Math.floor(Date.now() / 1000);
+    const result = db.prepare(`
+        INSERT OR IGNORE INTO jobs (type, job_key, payload_json, status, attempts, run_after_ts, created_ts, updated_ts)
+        VALUES (?, ?, ?, 'pending', 0, ?, ?, ?)
+    `).run(type, key, JSON.stringify(payload), runAfterTs ?? now, now, now);
+
+    return result.changes > 0;
+}
+
+/**
+ * Atomically claim up to `limit` due jobs of a type, marking them running.
+ */
+export function claimJobs(type: JobType, limit: number, now: number): JobRow[] {
+    const db = getDb();
+    const claim = db.transaction((): JobRow[] => {
+        const rows = db.prepare(`
+            SELECT * FROM jobs
+            WHERE type = ? AND status = 'pending' AND run_after_ts <= ?
+            ORDER BY run_after_ts ASC, id ASC
+            LIMIT ?
+        `).all(type, now, limit) as JobRow[];
+
+        const mark = db.prepare(`UPDATE jobs SET status = 'running', updated_ts = ? WHERE id = ?`);
+        for (const row of rows) {
+            mark.run(now, row.id);
+        }
+        return rows;
+    });
+
+    return claim();
+}
+
+export function completeJob(id: number): void {
+    const db = getDb();
+    const now = Math.floor(Date.now() / 1000);
+    db.prepare(`UPDATE jobs SET status = 'done', last_error = NULL, updated_ts = ? WHERE id = ?`).run(now, id);
+}
+
+/**
+ * Put a running job back in the queue without counting a failed attempt.
+ */
+export function requeueJob(id: number, runAfterTs: number): void {
+    const db = getDb();
+    const now = Math.floor(Date.now() / 1000);
+    db.prepare(`
+        UPDATE jobs SET status = 'pending', run_after_ts = ?, updated_ts = ? WHERE id = ?
+    `).run(runAfterTs, now, id);
+}
+
+/**
+ * Record a failed attempt: retry after `retryAfterTs`, or dead-letter once
+ * `maxAttempts` is reached.
+ */
+export function failJob(id: number, error: string, maxAttempts: number, retryAfterTs: number): JobStatus {
+    const db = getDb();
+    const now = Math.floor(Date.now() / 1000);
+    const row = db.prepare('SELECT attempts FROM jobs WHERE id = ?').get(id) as { attempts: number } | undefined;
+    const attempts = (row?.attempts ?? 0) + 1;
+    const status: JobStatus = attempts >= maxAttempts ? 'dead' : 'pending';
+
+    db.prepare(`
+        UPDATE jobs SET status = ?, attempts = ?, last_error = ?, run_after_ts = ?, updated_ts = ? WHERE id = ?
+    `).run(status, attempts, error, retryAfterTs, now, id);
+
+    return status;
+}
+
+/**
+ * Return jobs left running by a previous process to the queue.
+ */
+export function resetRunningJobs(): number {
+    const db = getDb();
+    const now = Math.floor(Date.now() / 1000);
+    const result = db.prepare(`
+        UPDATE jobs SET status = 'pending', run_after_ts = ?, updated_ts = ? WHERE status = 'running'
+    `).run(now, now);
+    return result.changes;
+}
+
+/**
+ * Delete finished jobs older than a timestamp. Dead-lettered jobs are kept.
+ */
+export function pruneDoneJobs(olderThanTs: number): void {
+    const db = getDb();
+    db.prepare(`DELETE FROM jobs WHERE status = 'done' AND updated_ts < ?`).run(olderThanTs);
+}
+
+export interface JobQueueStats {
+    pending: number;
+    running: number;
+    retrying: number;
+    dead: number;
+}
+
+export function getJobQueueStats(): JobQueueStats {
+    const db = getDb();
+    const row = db.prepare(`
+        SELECT
+          COALESCE(SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END), 0) AS pending,
+          COALESCE(SUM(CASE WHEN status = 'running' THEN 1 ELSE 0 END), 0) AS running,
+          COALESCE(SUM(CASE WHEN status = 'pending' AND attempts > 0 THEN 1 ELSE 0 END), 0) AS retrying,
+          COALESCE(SUM(CASE WHEN status = 'dead' THEN 1 ELSE 0 END), 0) AS dead
+        FROM jobs
+    `).get() as JobQueueStats;
+    return row;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Wallet Funders
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function getWalletFunder(wallet: string): WalletFunderRow | undefined {
+    const db = getDb();
+    return db.prepare('SELECT * FROM wallet_funders WHERE wallet = ?').get(wallet) as WalletFunderRow | undefined;
+}
+
+export function getAllWalletFunders(): WalletFunderRow[] {
+    const db = getDb();
+    return db.prepare('SELECT * FROM wallet_funders WHERE funder IS NOT NULL').all() as WalletFunderRow[];
+}
+
+export function upsertWalletFunder(row: WalletFunderRow): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT INTO wallet_funders (wallet, funder, first_signature, cursor, pages_walked, resolved, checked_ts)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(wallet) DO UPDATE SET
+          funder = excluded.funder,
+          first_signature = excluded.first_signature,
+          cursor = excluded.cursor,
+          pages_walked = excluded.pages_walked,
+          resolved = excluded.resolved,
+          checked_ts = excluded.checked_ts
+    `).run(row.wallet, row.funder, row.first_signature, row.cursor, row.pages_walked, row.resolved, row.checked_ts);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Transaction Archive
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Archive a normalized transaction so holder state can be rebuilt later.
+ */
+export function storeTransaction(signature: string, ts: number, txJson: string): void {
+    const db = getDb();
+    db.prepare(`
+        INSERT OR IGNORE INTO transactions (signature, ts, tx_json)
+        VALUES (?, ?, ?)
+    `).run(signature, ts, txJson);
+}
+
+/**
+ * Page through archived transactions in chronological order.
+ * Pass the last row of the previous page as the cursor.
+ */
+export function getStoredTransactions(
+    after: { ts: number; signature: string } | null,
+    limit: number
+): StoredTransactionRow[] {
+    const db = getDb();
+    if (!after) {
+        return db.prepare(`
+            SELECT * FROM transactions ORDER BY ts ASC, signature ASC LIMIT ?
+        `).all(limit) as StoredTransactionRow[];
+    }
+
+    return db.prepare(`
+        SELECT * FROM transactions
+        WHERE ts > ? OR (ts = ? AND signature > ?)
+        ORDER BY ts ASC, signature ASC LIMIT ?
+    `).all(after.ts, after.ts, after.signature, limit) as StoredTransactionRow[];
+}
+
+export function countStoredTransactions(): number {
+    const db = getDb();
+    const row = db.prepare('SELECT COUNT(*) AS count FROM transactions').get() as { count: number };
+    return row.count;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Processed Signature Ledger
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Check whether a transaction has already been applied by any ingestion path
+ * (polling scan, stream, webhook).
+ */
+export function isSignatureProcessed(signature: string): boolean {
+    const db = getDb();
+    const row = db.prepare('SELECT 1 FROM processed_signatures WHERE signature = ?').get(signature);
+    return row !== undefined;
+}
+
+/**
+ * Mark a transaction as applied. Returns false if it was already marked.
+ */
+export function markSignatureProcessed(signature: string, via: string): boolean {
+    const db = getDb();
+    const now = Math.floor(Date.now() / 1000);
+    const result = db.prepare(`
+        INSERT OR IGNORE INTO processed_signatures (signature, via, processed_ts)
+        VALUES (?, ?, ?)
+    `).run(signature, via, now);
+
+    return result.changes > 0;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Round Queries
 // ─────────────────────────────────────────────────────────────────────────────
@@ -516,6 +1428,125 @@ export function insertRound(round: RoundRow): void {
   `).run(round.round_id, round.type, round.ts, round.txs_json, round.meta_json);
 }
 
+export function insertRoundCommitment(row: Pick<RoundCommitmentRow,
+    'round_id' | 'commitment' | 'target_slot' | 'snapshot_json' | 'eligible_json' | 'created_ts'>): void {
+    const db = getDb();
+    db.prepare(`
+    INSERT INTO round_commitments (round_id, commitment, target_slot, snapshot_json, eligible_json, status, created_ts)
+    VALUES (?, ?, ?, ?, ?, 'committed', ?)
+  `).run(row.round_id, row.commitment, row.target_slot, row.snapshot_json, row.eligible_json, row.created_ts);
+}
+
+/**
+ * The most recent commitment whose round has not completed. A new round must
+ * finish it before committing again, so a draw cannot be re-rolled.
+ */
+export function getOpenRoundCommitment(): RoundCommitmentRow | undefined {
+    const db = getDb();
+    return db.prepare(`
+    SELECT * FROM round_commitments WHERE status != 'completed' ORDER BY created_ts DESC LIMIT 1
+  `).get() as RoundCommitmentRow | undefined;
+}
+
+export function getRoundCommitment(roundId: string): RoundCommitmentRow | undefined {
+    const db = getDb();
+    return db.prepare('SELECT * FROM round_commitments WHERE round_id = ?').get(roundId) as RoundCommitmentRow | undefined;
+}
+
+export function markCommitmentRevealed(roundId: string, revealSlot: number, blockhash: string, seed: string): void {
+    const db = getDb();
+    db.prepare(`
+    UPDATE round_commitments
+    SET status = 'revealed', reveal_slot = ?, blockhash = ?, seed = ?, revealed_ts = ?
+    WHERE round_id = ?
+  `).run(revealSlot, blockhash, seed, Math.floor(Date.now() / 1000), roundId);
+}
+
+/**
+ * Save a round's payout before its first transfer is sent. A round resumed
+ * in this state never sends transfers again.
+ */
+export function markCommitmentPaying(roundId: string, payoutJson: string): void {
+    const db = getDb();
+    db.prepare(`
+    UPDATE round_commitments SET status = 'paying', payout_json = ? WHERE round_id = ?
+  `).run(payoutJson, roundId);
+}
+
+export function updateCommitmentPayout(roundId: string, payoutJson: string): void {
+    const db = getDb();
+    db.prepare('UPDATE round_commitments SET payout_json = ? WHERE round_id = ?').run(payoutJson, roundId);
+}
+
+export function completeRoundCommitment(roundId: string): void {
+    const db = getDb();
+    db.prepare(`UPDATE round_commitments SET status = 'completed' WHERE round_id = ?`).run(roundId);
+}
+
+/**
+ * Store every entry of a reward round's draw, atomically.
+ */
+export function insertRoundEntries(entries: RoundEntryRow[]): void {
+    const db = getDb();
+    const insert = db.prepare(`
+        INSERT OR REPLACE INTO round_entries (
+            round_id, wallet, weight, weight_factors_json, wallet_age_days, streak_rounds,
+            twb_score, token_balance_raw, token_balance_ui, cluster_id, won, reward_amount_raw
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const apply = db.transaction(() => {
+        for (const e of entries) {
+            insert.run(
+                e.round_id, e.wallet, e.weight, e.weight_factors_json, e.wallet_age_days, e.streak_rounds,
+                e.twb_score, e.token_balance_raw, e.token_balance_ui, e.cluster_id, e.won, e.reward_amount_raw
+            );
+        }
+    });
+
+    apply();
+}
+
+/**
+ * A round's entries, sorted by wallet.
+ */
+export function getRoundEntries(roundId: string): RoundEntryRow[] {
+    const db = getDb();
+    return db.prepare(`
+    SELECT * FROM round_entries WHERE round_id = ? ORDER BY wallet ASC
+  `).all(roundId) as RoundEntryRow[];
+}
+
+/**
+ * Win history: for every wallet that has won, the number of reward rounds
+ * recorded after its most recent win (0 = it won the latest round).
+ */
+export function getRoundsSinceLastWin(): Map<string, number> {
+    const db = getDb();
+    const rows = db.prepare(`
+    SELECT w.wallet,
+           (SELECT COUNT(*) FROM rounds r WHERE r.type = 'reward' AND r.ts > w.last_win_ts) AS rounds_since_win
+    FROM (
+      SELECT e.wallet, MAX(r.ts) AS last_win_ts
+      FROM round_entries e
+      JOIN rounds r ON r.round_id = e.round_id
+      WHERE e.won = 1
+      GROUP BY e.wallet
+    ) w
+  `).all() as Array<{ wallet: string; rounds_since_win: number }>;
+
+    return new Map(rows.map(row => [row.wallet, row.rounds_since_win]));
+}
+
+/**
+ * Get all rounds of a type, oldest first.
+ */
+export function getRounds(type: 'buy' | 'reward'): RoundRow[] {
+    const db = getDb();
+    return db.prepare(`
+    SELECT * FROM rounds WHERE type = ? ORDER BY ts ASC
+  `).all(type) as RoundRow[];
+}
+
 export function getLastRound(type: 'buy' | 'reward'): RoundRow | undefined {
     const db = getDb();
     return db.prepare(`
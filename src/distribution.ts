@@ -0,0 +1,122 @@
+// Reward distribution: how a round's pot is divided among its winners. Exact
+// bigint math, free of imports like the lottery and weight modules, so the
+// published amounts can be recomputed from the winners and the pot.
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Distribution Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * How the pot is divided among winners:
+ * - equal:      the same amount each
+ * - weighted:   in proportion to lottery weight
+ * - tiered:     fixed percents of the pot for the first draw positions
+ *               (e.g. 50/30/20); winners past the tiers split what the
+ *               tiers leave of 100% equally
+ * - base_bonus: basePercent split equally, the rest in proportion to weight
+ */
+export type DistributionMode = 'equal' | 'weighted' | 'tiered' | 'base_bonus';
+
+export const DISTRIBUTION_MODES: DistributionMode[] = ['equal', 'weighted', 'tiered', 'base_bonus'];
+
+export interface DistributionPolicy {
+    mode: DistributionMode;
+    /** tiered: percent of the pot for draw positions 1, 2, ...; at most one per winner, summing to at most 100 */
+    tiers: number[];
+    /** base_bonus: percent of the pot split equally */
+    basePercent: number;
+}
+
+/** Weights are fixed-point scaled by this before bigint division */
+const WEIGHT_SCALE = 1e9;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Allocation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Split `total` in proportion to `shares` exactly. Each part is rounded
+ * down; the units left over go one each to the parts with the largest
+ * remainders, ties to the earliest part (draw order). Parts sum to `total`.
+ * All-zero shares fall back to an equal split.
+ */
+export function splitProportional(total: bigint, shares: bigint[]): bigint[] {
+    if (shares.length === 0) return [];
+
+    const sum = shares.reduce((acc, share) => acc + share, BigInt(0));
+    if (sum <= BigInt(0)) {
+        return splitProportional(total, shares.map(() => BigInt(1)));
+    }
+
+    const parts = shares.map(share => (total * share) / sum);
+    const remainders = shares.map((share, index) => ({ index, remainder: (total * share) % sum }));
+
+    let leftover = total - parts.reduce((acc, part) => acc + part, BigInt(0));
+    remainders.sort((a, b) =>
+        a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1);
+
+    for (const { index } of remainders) {
+        if (leftover <= BigInt(0)) break;
+        parts[index] += BigInt(1);
+        leftover -= BigInt(1);
+    }
+
+    return parts;
+}
+
+function weightShares(winners: Array<{ weight: number }>): bigint[] {
+    return winners.map(winner => BigInt(Math.round(Math.max(0, winner.weight) * WEIGHT_SCALE)));
+}
+
+/**
+ * Reward amount for each winner, in draw order. The amounts sum to `total`
+ * exactly, except in tiered mode: the tiers of positions nobody was drawn
+ * for, and the remainder when no winner is past the tiers, are not paid
+ * out and stay in the treasury.
+ */
+export function allocateRewards(
+    total: bigint,
+    winners: Array<{ weight: number }>,
+    policy: DistributionPolicy
+): bigint[] {
+    if (winners.length === 0) return [];
+
+    switch (policy.mode) {
+        case 'equal':
+            return splitProportional(total, winners.map(() => BigInt(1)));
+
+        case 'weighted':
+            return splitProportional(total, weightShares(winners));
+
+        case 'tiered':
+            return allocateTiers(total, winners.length, policy.tiers);
+
+        case 'base_bonus': {
+            const basePermille = BigInt(Math.round(policy.basePercent * 1000));
+            const base = (total * basePermille) / BigInt(100_000);
+            const baseParts = splitProportional(base, winners.map(() => BigInt(1)));
+            const bonusParts = splitProportional(total - base, weightShares(winners));
+            return baseParts.map((part, index) => part + bonusParts[index]);
+        }
+
+        default:
+            throw new Error(`Unknown distribution mode: ${policy.mode}`);
+    }
+}
+
+/**
+ * Split the whole pot into the tiers plus what they leave of 100%, so
+ * rounding is exact, then hand out the parts by draw position.
+ */
+function allocateTiers(total: bigint, winnerCount: number, tiers: number[]): bigint[] {
+    const tiersPercent = tiers.reduce((sum, tier) => sum + tier, 0);
+    const shares = [...tiers, Math.max(0, 100 - tiersPercent)].map(percent => BigInt(Math.round(percent * WEIGHT_SCALE)));
+    const parts = splitProportional(total, shares);
+
+    const tiered = parts.slice(0, Math.min(winnerCount, tiers.length));
+    const untiered = winnerCount - tiered.length;
+    if (untiered === 0) return tiered;
+
+    const remainder = parts[parts.length - 1];
+    return [...tiered, ...splitProportional(remainder, Array.from({ length: untiered }, () => BigInt(1)))];
+}
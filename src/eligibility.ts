@@ -0,0 +1,270 @@
+import { getConfig } from './config';
+import { getHolder, getHolderTimeline, getTokenAccountsForWallet, HolderEventRow, HolderRow, TokenAccountRow } from './db';
+import { getCachedTokenDecimals, rawToUi } from './token';
+import { describeCluster, ClusterMembership } from './cluster';
+import { strategyUsesWalletAge } from './weights';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Eligibility Explanation Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type EligibilityRule = 'wallet_age' | 'continuity' | 'buy_sol' | 'balance' | 'blacklist';
+
+export interface EligibilityRuleCheck {
+    rule: EligibilityRule;
+    pass: boolean;
+    /** Value the rule checks (null if not known yet) */
+    actual: number | string | boolean | null;
+    threshold: number | string | boolean;
+    /**
+     * Seconds until the rule passes if the wallet keeps holding: 0 if it
+     * passes now, null if waiting alone will not make it pass
+     */
+    secondsUntilPass: number | null;
+    detail: string;
+}
+
+export interface EligibilityExplanation {
+    wallet: string;
+    /** Whether the bot has ever seen the wallet */
+    known: boolean;
+    eligible: boolean;
+    checkedTs: number;
+    rules: EligibilityRuleCheck[];
+    /** Seconds until every rule passes by waiting, null if some rule needs action */
+    secondsUntilEligible: number | null;
+    cluster: ClusterMembership;
+    /** Token accounts the balance is summed from, largest first */
+    tokenAccounts: TokenAccountRow[];
+    /** Latest classified activity (buys, sells, transfers), newest first */
+    recentActivity: HolderEventRow[];
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const RECENT_ACTIVITY_LIMIT = 10;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Rule Checks
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Check one wallet against each rule of `getEligibleHolders` (plus the
+ * non-zero balance the scorer requires), with the actual value, the
+ * threshold and how long until the rule would pass.
+ */
+export function explainEligibility(wallet: string, now: number = Math.floor(Date.now() / 1000)): EligibilityExplanation {
+    const holder = getHolder(wallet);
+    const tokenAccounts = getTokenAccountsForWallet(wallet);
+
+    const rules = [
+        checkWalletAge(holder, now),
+        checkContinuity(holder, now),
+        checkBuySol(holder),
+        checkBalance(holder, tokenAccounts.length),
+        checkBlacklist(holder),
+    ];
+
+    const waits = rules.map(r => r.secondsUntilPass);
+
+    return {
+        wallet,
+        known: holder !== undefined,
+        eligible: rules.every(r => r.pass),
+        checkedTs: now,
+        rules,
+        secondsUntilEligible: waits.every(w => w !== null) ? Math.max(...(waits as number[])) : null,
+        cluster: describeCluster(wallet),
+        tokenAccounts,
+        recentActivity: getHolderTimeline(wallet, RECENT_ACTIVITY_LIMIT),
+    };
+}
+
+function checkWalletAge(holder: HolderRow | undefined, now: number): EligibilityRuleCheck {
+    const config = getConfig();
+    const threshold = config.walletMinAgeDays;
+
+    if (!holder?.first_seen_ts) {
+        return {
+            rule: 'wallet_age',
+            pass: false,
+            actual: null,
+            threshold,
+            secondsUntilPass: null,
+            detail: 'Wallet age not discovered yet',
+        };
+    }
+
+    const ageDays = (now - holder.first_seen_ts) / SECONDS_PER_DAY;
+    const waitSeconds = Math.max(0, holder.first_seen_ts + threshold * SECONDS_PER_DAY - now);
+    const lowerBound = holder.age_status !== 'exact';
+    // Age-weighted strategies leave lower bounds out of the draw until discovery finishes
+    const unweighted = strategyUsesWalletAge(config.weightStrategy) ? '; not in the draw until it finishes' : '';
+
+    return {
+        rule: 'wallet_age',
+        pass: waitSeconds === 0,
+        actual: ageDays,
+        threshold,
+        secondsUntilPass: waitSeconds,
+        detail: lowerBound
+            ? `At least ${ageDays.toFixed(1)} days old (discovery not finished; the wallet may be older${unweighted})`
+            : `${ageDays.toFixed(1)} days since the first transaction`,
+    };
+}
+
+function checkContinuity(holder: HolderRow | undefined, now: number): EligibilityRuleCheck {
+    const config = getConfig();
+    const threshold = config.minContinuitySeconds;
+
+    if (!holder?.continuity_start_ts) {
+        return {
+            rule: 'continuity',
+            pass: false,
+            actual: null,
+            threshold,
+            secondsUntilPass: null,
+            detail: 'Not currently holding continuously',
+        };
+    }
+
+    const heldSeconds = now - holder.continuity_start_ts;
+    const waitSeconds = Math.max(0, threshold - heldSeconds);
+    const lastRule = holder.last_continuity_rule ? ` (last sell handled by '${holder.last_continuity_rule}')` : '';
+
+    return {
+        rule: 'continuity',
+        pass: waitSeconds === 0,
+        actual: heldSeconds,
+        threshold,
+        secondsUntilPass: waitSeconds,
+        detail: `Held since ${new Date(holder.continuity_start_ts * 1000).toISOString()}${lastRule}`,
+    };
+}
+
+function checkBuySol(holder: HolderRow | undefined): EligibilityRuleCheck {
+    const config = getConfig();
+    const threshold = config.minCumulativeBuySol;
+    const high = holder?.cumulative_buy_sol ?? 0;
+    const low = holder?.cumulative_buy_sol_low_confidence ?? 0;
+    const pass = high >= threshold;
+
+    let detail = `${high} SOL in high-confidence buys`;
+    if (low > 0) {
+        detail += `; ${low} SOL in low-confidence buys does not count`;
+        if (!pass && high + low >= threshold) {
+            detail += ' (it would be enough if confirmed)';
+        }
+    }
+
+    return {
+        rule: 'buy_sol',
+        pass,
+        actual: high,
+        threshold,
+        secondsUntilPass: pass ? 0 : null,
+        detail,
+    };
+}
+
+function checkBalance(holder: HolderRow | undefined, accountCount: number): EligibilityRuleCheck {
+    const raw = holder?.last_balance_raw ?? null;
+    const pass = raw !== null && BigInt(raw) > BigInt(0);
+    const decimals = getCachedTokenDecimals();
+    const accounts = accountCount === 1 ? '1 token account' : `${accountCount} token accounts`;
+
+    return {
+        rule: 'balance',
+        pass,
+        actual: raw === null ? null : decimals === null ? raw : rawToUi(raw, decimals),
+        threshold: 0,
+        secondsUntilPass: pass ? 0 : null,
+        detail: raw === null
+            ? 'Balance not checked yet'
+            : `Token balance ${formatAmount(raw)} across ${accounts}, must be above 0`,
+    };
+}
+
+function checkBlacklist(holder: HolderRow | undefined): EligibilityRuleCheck {
+    const blacklisted = holder?.is_blacklisted === 1;
+
+    return {
+        rule: 'blacklist',
+        pass: !blacklisted,
+        actual: blacklisted,
+        threshold: false,
+        secondsUntilPass: blacklisted ? null : 0,
+        detail: blacklisted ? 'Wallet is blacklisted' : 'Not blacklisted',
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Report
+// ─────────────────────────────────────────────────────────────────────────────
+
+function formatAmount(raw: string): string {
+    const decimals = getCachedTokenDecimals();
+    return decimals === null ? `${raw} (raw)` : `${rawToUi(raw, decimals)}`;
+}
+
+function formatDuration(seconds: number): string {
+    if (seconds < 60) return `${seconds}s`;
+    const days = Math.floor(seconds / SECONDS_PER_DAY);
+    const hours = Math.floor((seconds % SECONDS_PER_DAY) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return [days && `${days}d`, hours && `${hours}h`, minutes && `${minutes}m`].filter(Boolean).join(' ') || '0m';
+}
+
+export function printEligibilityExplanation(explanation: EligibilityExplanation): void {
+    const { cluster } = explanation;
+
+    console.log('');
+    console.log('[ELIGIBILITY] ═══════════════════════════════════════════════════════');
+    console.log(`[ELIGIBILITY]   Wallet: ${explanation.wallet}${explanation.known ? '' : ' (never seen by the bot)'}`);
+    console.log(`[ELIGIBILITY]   Eligible: ${explanation.eligible ? 'YES' : 'NO'}`);
+    if (!explanation.eligible) {
+        console.log(`[ELIGIBILITY]   Eligible in: ${explanation.secondsUntilEligible === null
+            ? 'not by waiting alone'
+            : formatDuration(explanation.secondsUntilEligible)}`);
+    }
+    console.log('[ELIGIBILITY] ═══════════════════════════════════════════════════════');
+
+    for (const check of explanation.rules) {
+        const wait = check.pass ? '' : check.secondsUntilPass === null
+            ? ', will not pass by waiting'
+            : `, passes in ${formatDuration(check.secondsUntilPass)}`;
+        console.log(`[ELIGIBILITY]   ${check.pass ? 'PASS' : 'FAIL'} ${check.rule}: ` +
+            `${typeof check.actual === 'number' ? +check.actual.toFixed(4) : check.actual ?? 'unknown'}` +
+            ` (threshold ${check.threshold}${wait})`);
+        console.log(`[ELIGIBILITY]        ${check.detail}`);
+    }
+
+    if (cluster.clusterId) {
+        console.log(`[ELIGIBILITY]   Cluster ${cluster.clusterId}: shares a funder with ${cluster.otherMembers.length} other holders`);
+        for (const member of cluster.otherMembers) {
+            console.log(`[ELIGIBILITY]       ${member}`);
+        }
+    } else {
+        console.log('[ELIGIBILITY]   Not in a funding cluster');
+    }
+    if (cluster.funderChain.length > 0) {
+        console.log(`[ELIGIBILITY]   Funded by: ${cluster.funderChain.join(' ← ')}`);
+    }
+
+    if (explanation.tokenAccounts.length > 0) {
+        console.log('[ELIGIBILITY]   Token accounts:');
+        for (const account of explanation.tokenAccounts) {
+            console.log(`[ELIGIBILITY]       ${account.address}: ${account.balance_raw === null ? 'not read yet' : formatAmount(account.balance_raw)}`);
+        }
+    }
+
+    if (explanation.recentActivity.length > 0) {
+        console.log('[ELIGIBILITY]   Recent activity:');
+        for (const event of explanation.recentActivity) {
+            const counterparty = event.counterparty ? ` (${event.counterparty.slice(0, 8)}...)` : '';
+            console.log(`[ELIGIBILITY]       ${new Date(event.ts * 1000).toISOString()} ${event.kind} ` +
+                `${formatAmount(event.token_amount_raw)}${counterparty}`);
+        }
+    }
+
+    console.log('');
+}
@@ -0,0 +1,154 @@
+import { Connection, ParsedInstruction, PartiallyDecodedInstruction, PublicKey } from '@solana/web3.js';
+import { getWalletFunder, upsertWalletFunder, WalletFunderRow } from './db';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Funding Source Lookup
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Pages walked per call; the walk resumes from the saved cursor next time */
+const MAX_FUNDING_PAGES = 10;
+/** Pages walked across all calls before a wallet is treated as unfunded */
+const MAX_FUNDING_TOTAL_PAGES = 100;
+const SIGNATURES_PER_PAGE = 1000;
+/** Earliest transactions inspected for the first incoming SOL transfer */
+const FIRST_TRANSACTIONS_CHECKED = 10;
+
+export interface FundingLookupResult {
+    /** False if the walk to the first transaction is not finished yet */
+    resolved: boolean;
+    funder: string | null;
+}
+
+/**
+ * Find who first sent SOL to a wallet.
+ *
+ * The wallet's signatures are walked back to its first transaction (the
+ * cursor is persisted after every page, like wallet-age discovery), then its
+ * earliest transactions are scanned for a System Program transfer or
+ * account creation that credits the wallet. The sender is the funder.
+ *
+ * A wallet whose earliest transactions carry no such transfer resolves with
+ * no funder. So does a wallet whose history is longer than
+ * `MAX_FUNDING_TOTAL_PAGES` pages (exchanges, bots), so its job is not
+ * re-queued forever; with `giveUpIfIncomplete` it gives up after one call
+ * instead. RPC errors are thrown so the job queue can retry.
+ */
+export async function lookupFundingSource(
+    connection: Connection,
+    wallet: string,
+    giveUpIfIncomplete: boolean = false
+): Promise<FundingLookupResult> {
+    const existing = getWalletFunder(wallet);
+    if (existing?.resolved) {
+        return { resolved: true, funder: existing.funder };
+    }
+
+    const walletPubkey = new PublicKey(wallet);
+    let before: string | undefined = existing?.cursor ?? undefined;
+    let pagesWalked = existing?.pages_walked ?? 0;
+    // Oldest signatures of the last full page, newest first: the first
+    // transactions if the next page turns out empty. A resumed walk only
+    // knows the cursor itself.
+    let previousTail: string[] = before ? [before] : [];
+
+    for (let page = 0; page < MAX_FUNDING_PAGES; page++) {
+        const signatures = await connection.getSignaturesForAddress(walletPubkey, {
+            limit: SIGNATURES_PER_PAGE,
+            before,
+        });
+
+        if (signatures.length === SIGNATURES_PER_PAGE) {
+            previousTail = signatures
+                .filter(sig => sig.err === null)
+                .slice(-FIRST_TRANSACTIONS_CHECKED)
+                .map(sig => sig.signature);
+            before = signatures[signatures.length - 1].signature;
+            pagesWalked++;
+            saveFunder(wallet, { cursor: before, pages_walked: pagesWalked });
+            await new Promise(resolve => setTimeout(resolve, 100));
+            continue;
+        }
+
+        // Reached the first transaction: check the earliest ones, oldest first
+        // (reaching into the previous page when this one is short or empty)
+        const earliest = [
+            ...previousTail,
+            ...signatures.filter(sig => sig.err === null).map(sig => sig.signature),
+        ].reverse().slice(0, FIRST_TRANSACTIONS_CHECKED);
+
+        for (const signature of earliest) {
+            const funder = await findIncomingSolTransfer(connection, signature, wallet);
+            if (funder) {
+                saveFunder(wallet, { funder, first_signature: signature, cursor: null, resolved: 1 });
+                console.log(`[FUNDING] Wallet ${wallet.slice(0, 8)}... funded by ${funder.slice(0, 8)}...`);
+                return { resolved: true, funder };
+            }
+        }
+
+        saveFunder(wallet, { funder: null, cursor: null, resolved: 1 });
+        console.log(`[FUNDING] Wallet ${wallet.slice(0, 8)}... has no SOL funding transfer in its first transactions`);
+        return { resolved: true, funder: null };
+    }
+
+    if (giveUpIfIncomplete || pagesWalked >= MAX_FUNDING_TOTAL_PAGES) {
+        saveFunder(wallet, { funder: null, cursor: null, resolved: 1 });
+        console.log(`[FUNDING] Wallet ${wallet.slice(0, 8)}... history too long, treating as unfunded`);
+        return { resolved: true, funder: null };
+    }
+
+    console.log(`[FUNDING] Wallet ${wallet.slice(0, 8)}... history not fully walked, will resume`);
+    return { resolved: false, funder: null };
+}
+
+function saveFunder(wallet: string, fields: Partial<Omit<WalletFunderRow, 'wallet'>>): void {
+    const existing = getWalletFunder(wallet);
+    upsertWalletFunder({
+        wallet,
+        funder: existing?.funder ?? null,
+        first_signature: existing?.first_signature ?? null,
+        cursor: existing?.cursor ?? null,
+        pages_walked: existing?.pages_walked ?? 0,
+        resolved: existing?.resolved ?? 0,
+        ...fields,
+        checked_ts: Math.floor(Date.now() / 1000),
+    });
+}
+
+/**
+ * Return the sender of a System Program transfer (or account creation)
+ * into `wallet` within a transaction, including inner instructions.
+ */
+async function findIncomingSolTransfer(
+    connection: Connection,
+    signature: string,
+    wallet: string
+): Promise<string | null> {
+    const tx = await connection.getParsedTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+    });
+    // A failed transaction moved no SOL (the resumed cursor is not filtered by status)
+    if (!tx || tx.meta?.err) return null;
+
+    const instructions: (ParsedInstruction | PartiallyDecodedInstruction)[] = [
+        ...tx.transaction.message.instructions,
+        ...(tx.meta?.innerInstructions ?? []).flatMap(inner => inner.instructions),
+    ];
+
+    for (const ix of instructions) {
+        if (!('parsed' in ix) || ix.program !== 'system') continue;
+
+        const { type, info } = ix.parsed as { type: string; info: Record<string, unknown> };
+        if (type === 'transfer' || type === 'transferWithSeed') {
+            if (info.destination === wallet && typeof info.source === 'string' && info.source !== wallet) {
+                return info.source;
+            }
+        } else if (type === 'createAccount' || type === 'createAccountWithSeed') {
+            if (info.newAccount === wallet && typeof info.source === 'string' && info.source !== wallet) {
+                return info.source;
+            }
+        }
+    }
+
+    return null;
+}
@@ -3,6 +3,7 @@ import { getAccount, getAssociatedTokenAddress } from '@solana/spl-token';
 import * as cron from 'node-cron';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as readline from 'readline';
 import { getConfig, Config } from './config.js';
 import {
     initDb,
@@ -13,10 +14,20 @@ import {
     isSafeMode,
     exitSafeMode,
     getSafeModeReason,
+    isBotOnline,
 } from './db.js';
-import { bootstrapScan, incrementalScan } from './scan.js';
+import { bootstrapScan, incrementalScan, ScanResult } from './scan.js';
+import { bootstrapFromTokenAccounts } from './bootstrap.js';
+import { rebuildHolderState, printRebuildReport, swapRebuiltDb } from './rebuild.js';
+import { MintStream } from './stream.js';
+import { getTokenProgramId, getTokenDecimals } from './token.js';
+import { resumeWalletAges } from './age.js';
+import { JobRunner, enqueueBalanceRefresh } from './jobs.js';
+import { assignClusters, resumeFundingLookups } from './cluster.js';
 import { executeBuyRound } from './buys.js';
 import { executeRewardRound } from './rewards.js';
+import { getOddsReport, printOddsReport } from './odds.js';
+import { explainEligibility, printEligibilityExplanation } from './eligibility.js';
 import { startStatusServer, stopStatusServer } from './status-server.js';
 import { executeWithLockAndTimeout } from './execution.js';
 
@@ -26,22 +37,47 @@ import { executeWithLockAndTimeout } from './execution.js';
 
 interface CliArgs {
     bootstrap: boolean;
+    bootstrapAccounts: boolean;
+    rebuild: boolean;
     onceBuy: boolean;
     onceReward: boolean;
+    odds: boolean;
+    /** Wallet to explain eligibility for (--explain <wallet>) */
+    explainWallet: string | null;
     exitSafeMode: boolean;
 }
 
 function parseArgs(): CliArgs {
     const args = process.argv.slice(2);
+    const explainIndex = args.indexOf('--explain');
 
     return {
         bootstrap: args.includes('--bootstrap'),
+        bootstrapAccounts: args.includes('--bootstrap-accounts'),
+        rebuild: args.includes('--rebuild'),
         onceBuy: args.includes('--once-buy'),
         onceReward: args.includes('--once-reward'),
+        odds: args.includes('--odds'),
+        explainWallet: explainIndex >= 0 ? args[explainIndex + 1] ?? '' : null,
         exitSafeMode: args.includes('--exit-safe-mode'),
     };
 }
 
+/**
+ * Ask the operator a yes/no question. Anything but "y"/"yes" (or no TTY) is no.
+ */
+async function confirm(question: string): Promise<boolean> {
+    if (!process.stdin.isTTY) {
+        return false;
+    }
+
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    const answer = await new Promise<string>(resolve => rl.question(question, resolve));
+    rl.close();
+
+    return ['y', 'yes'].includes(answer.trim().toLowerCase());
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Interval to Cron Expression
 // ─────────────────────────────────────────────────────────────────────────────
@@ -210,6 +246,8 @@ function shouldRunRewardJob(config: Config): boolean {
 let isShuttingDown = false;
 let scanJobRunning = false;
 let heartbeatInterval: NodeJS.Timeout | null = null;
+let mintStream: MintStream | null = null;
+let jobRunner: JobRunner | null = null;
 
 async function gracefulShutdown(signal: string): Promise<void> {
     if (isShuttingDown) {
@@ -228,6 +266,11 @@ async function gracefulShutdown(signal: string): Promise<void> {
 
     stopStatusServer();
 
+    if (mintStream) {
+        await mintStream.stop().catch(err => console.error('[SHUTDOWN] Stream stop error:', err));
+        mintStream = null;
+    }
+
     const maxWait = 30000;
     const startTime = Date.now();
 
@@ -236,6 +279,11 @@ async function gracefulShutdown(signal: string): Promise<void> {
         await new Promise(resolve => setTimeout(resolve, 1000));
     }
 
+    if (jobRunner) {
+        await jobRunner.stop();
+        jobRunner = null;
+    }
+
     console.log('[SHUTDOWN] Closing database...');
     closeDb();
 
@@ -301,7 +349,10 @@ async function main(): Promise<void> {
     console.log(`[INIT] Clearing stale locks older than ${maxLockAge}s...`);
     clearStaleLocks(maxLockAge);
 
-    const connection = new Connection(config.rpcUrl, 'confirmed');
+    const connection = new Connection(config.rpcUrl, {
+        commitment: 'confirmed',
+        wsEndpoint: config.wsUrl || undefined,
+    });
 
     try {
         const slot = await connection.getSlot();
@@ -311,10 +362,69 @@ async function main(): Promise<void> {
         process.exit(1);
     }
 
+    // Detect SPL Token vs Token-2022 once; everything downstream reads the cache
+    try {
+        await getTokenProgramId(connection);
+    } catch (err) {
+        console.error('[INIT] Token mint error:', err);
+        process.exit(1);
+    }
+
     // ─────────────────────────────────────────────────────────────────────────
     // Handle CLI modes
     // ─────────────────────────────────────────────────────────────────────────
 
+    if (args.bootstrapAccounts) {
+        console.log('\n[MODE] Bootstrap - seeding holders from on-chain token accounts');
+        await bootstrapFromTokenAccounts(connection);
+        console.log('[MODE] Bootstrap complete');
+        closeDb();
+        return;
+    }
+
+    if (args.rebuild) {
+        console.log('\n[MODE] Rebuild - replaying history into a fresh holder state');
+        const report = await rebuildHolderState(connection);
+        printRebuildReport(report);
+
+        if (isBotOnline()) {
+            console.log('[REBUILD] Bot is running; stop it before swapping databases.');
+            console.log(`[REBUILD] Rebuilt database left at ${report.rebuildPath}`);
+            closeDb();
+            return;
+        }
+
+        if (await confirm('Swap the rebuilt database into place? [y/N] ')) {
+            const backupPath = swapRebuiltDb(report.rebuildPath);
+            console.log(`[REBUILD] Swapped. Previous database kept at ${backupPath}`);
+        } else {
+            console.log(`[REBUILD] Live database untouched. Rebuilt copy left at ${report.rebuildPath}`);
+            closeDb();
+        }
+        return;
+    }
+
+    if (args.explainWallet !== null) {
+        if (!args.explainWallet) {
+            console.error('Usage: npm run explain -- <wallet>');
+            closeDb();
+            process.exit(1);
+        }
+
+        // Decimals are cached for the balance rule
+        await getTokenDecimals(connection);
+        printEligibilityExplanation(explainEligibility(args.explainWallet));
+        closeDb();
+        return;
+    }
+
+    if (args.odds) {
+        console.log('\n[MODE] Odds - win probability of each eligible holder');
+        printOddsReport(await getOddsReport(connection));
+        closeDb();
+        return;
+    }
+
     if (args.bootstrap) {
         console.log('\n[MODE] Bootstrap - fetching historical data');
         await bootstrapScan(connection);
@@ -394,7 +504,11 @@ async function main(): Promise<void> {
     }, 30000);
 
     console.log('[INIT] Starting status server...');
-    startStatusServer();
+    startStatusServer(connection);
+
+    console.log('[INIT] Starting job runner...');
+    jobRunner = new JobRunner(connection);
+    jobRunner.start();
 
     console.log('\n[MODE] Continuous operation');
     console.log(`[SCHEDULE] Buy job: every ${config.buyIntervalSeconds}s (timeout: ${config.buyJobTimeoutMs / 1000}s)`);
@@ -482,23 +596,71 @@ async function main(): Promise<void> {
         );
     });
 
-    // Schedule periodic scan
-    cron.schedule('*/10 * * * *', async () => {
-        if (isShuttingDown) return;
+    // Periodic scan, guarded so it never overlaps itself
+    let lastScanAt = 0;
+    const runScan = async (): Promise<ScanResult | null> => {
+        if (isShuttingDown) return null;
         if (scanJobRunning) {
             console.log('[SCAN] Previous scan still running, skipping');
-            return;
+            return null;
         }
 
         scanJobRunning = true;
         try {
             console.log('\n[SCAN] ─────────────────────────────────────────');
-            await incrementalScan(connection);
+            lastScanAt = Date.now();
+            return await incrementalScan(connection);
         } catch (err) {
             console.error('[SCAN] Error:', err);
+            return null;
         } finally {
             scanJobRunning = false;
         }
+    };
+
+    // Optional real-time ingestion; polling runs at full rate only while the socket is down
+    if (config.streamingEnabled) {
+        console.log('[INIT] Starting mint stream...');
+        mintStream = new MintStream(connection, {
+            staleSeconds: config.streamStaleSeconds,
+            onLive: () => { runScan(); },
+            onGiveUp: () => { runScan(); },
+        });
+        mintStream.start();
+    }
+
+    const scanCron = secondsToCron(config.scanIntervalSeconds);
+    console.log(`[SCHEDULE] Scan cron: ${scanCron}`);
+
+    // Schedule periodic scan; while live, only a reconciliation scan every
+    // streamReconcileSeconds, checked against what the stream delivered
+    cron.schedule(scanCron, async () => {
+        const reconciling = mintStream?.isLive() ?? false;
+        if (reconciling && Date.now() - lastScanAt < config.streamReconcileSeconds * 1000) {
+            return;
+        }
+
+        const result = await runScan();
+        if (reconciling && result && mintStream) {
+            mintStream.reconcile(result.processedSignatures);
+        }
+    });
+
+    // Queue background work: age discovery for holders still below the age
+    // threshold, funding lookups for clustering, and a balance refresh so
+    // snapshots keep up between rounds. Clusters are regrouped from the
+    // funders found so far.
+    cron.schedule(scanCron, () => {
+        if (isShuttingDown) return;
+
+        try {
+            resumeWalletAges();
+            resumeFundingLookups();
+            enqueueBalanceRefresh();
+            assignClusters();
+        } catch (err) {
+            console.error('[JOBS] Error queueing periodic jobs:', err);
+        }
     });
 
     console.log('');
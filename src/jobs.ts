@@ -0,0 +1,203 @@
+import { Connection } from '@solana/web3.js';
+import { getConfig } from './config';
+import {
+    JobRow,
+    JobType,
+    enqueueJob,
+    claimJobs,
+    completeJob,
+    requeueJob,
+    failJob,
+    resetRunningJobs,
+    pruneDoneJobs,
+    getHolder,
+} from './db';
+import { computeWalletAge, isWalletAgeSettled } from './age';
+import { refreshAllBalances } from './balances';
+import { lookupFundingSource } from './funding';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Job Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_RETRY_DELAY_SECONDS = 3600;
+/** Finished jobs are kept this long for inspection */
+const DONE_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+/** Delay before a job that made partial progress continues */
+const REQUEUE_DELAY_SECONDS = 60;
+
+/**
+ * What a handler reports back:
+ *   done    - finished, remove from the queue
+ *   requeue - made progress but has more to do; run again later without
+ *             counting a failed attempt
+ * Throwing counts as a failed attempt and is retried with backoff.
+ */
+export type JobOutcome = 'done' | 'requeue';
+
+type JobHandler = (connection: Connection, job: JobRow) => Promise<JobOutcome>;
+
+const HANDLERS: Record<JobType, JobHandler> = {
+    wallet_age: async (connection, job) => {
+        await computeWalletAge(connection, job.job_key);
+        const holder = getHolder(job.job_key);
+        return !holder || isWalletAgeSettled(holder, getConfig()) ? 'done' : 'requeue';
+    },
+
+    funding_source: async (connection, job) => {
+        // Holders are hop 1; their funders are looked up for multi-hop clustering
+        const { hop = 1 } = JSON.parse(job.payload_json) as { hop?: number };
+        const result = await lookupFundingSource(connection, job.job_key, hop > 1);
+
+        if (result.funder && hop < getConfig().clusterMaxHops) {
+            enqueueJob('funding_source', result.funder, { hop: hop + 1 });
+        }
+        return result.resolved ? 'done' : 'requeue';
+    },
+
+    balance_refresh: async (connection) => {
+        await refreshAllBalances(connection);
+        return 'done';
+    },
+};
+
+/**
+ * Jobs of a type allowed to run at once. Balance refreshes read every holder
+ * and write in one transaction, so they never overlap.
+ */
+function concurrencyLimit(type: JobType): number {
+    return type === 'balance_refresh' ? 1 : Math.max(1, getConfig().jobConcurrency);
+}
+
+/**
+ * Seconds before retry `attempt` (1-based): base × 2^(attempt-1), capped at an hour.
+ */
+export function retryDelaySeconds(attempt: number): number {
+    const base = getConfig().jobRetryBaseSeconds;
+    return Math.min(MAX_RETRY_DELAY_SECONDS, base * Math.pow(2, Math.max(0, attempt - 1)));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Enqueue Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Queue wallet-age discovery for wallets. Returns the number newly queued.
+ */
+export function enqueueWalletAges(wallets: string[]): number {
+    return wallets.filter(wallet => enqueueJob('wallet_age', wallet)).length;
+}
+
+/**
+ * Queue funding-source lookups for wallets. Returns the number newly queued.
+ */
+export function enqueueFundingLookups(wallets: string[]): number {
+    return wallets.filter(wallet => enqueueJob('funding_source', wallet, { hop: 1 })).length;
+}
+
+/**
+ * Queue a full balance refresh, unless one is already queued or running.
+ */
+export function enqueueBalanceRefresh(): boolean {
+    return enqueueJob('balance_refresh', 'all');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Job Runner
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Works the persistent job queue.
+ *
+ * Due jobs are claimed per type up to that type's concurrency limit and run
+ * in-process. A job that throws is retried with exponential backoff and
+ * dead-lettered (status 'dead', kept with its last error) after
+ * `jobMaxAttempts` attempts. Jobs left running by a crash are returned to
+ * the queue on start.
+ */
+export class JobRunner {
+    private pollTimer: NodeJS.Timeout | null = null;
+    private running = new Map<JobType, number>();
+    private inFlight = new Set<Promise<void>>();
+    private stopping = false;
+
+    constructor(private readonly connection: Connection) {}
+
+    start(): void {
+        const recovered = resetRunningJobs();
+        if (recovered > 0) {
+            console.log(`[JOBS] Returned ${recovered} interrupted jobs to the queue`);
+        }
+        pruneDoneJobs(Math.floor(Date.now() / 1000) - DONE_RETENTION_SECONDS);
+
+        this.stopping = false;
+        this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+        console.log('[JOBS] Job runner started');
+    }
+
+    /**
+     * Stop claiming jobs and wait for running ones to finish.
+     */
+    async stop(): Promise<void> {
+        this.stopping = true;
+        if (this.pollTimer) clearInterval(this.pollTimer);
+        this.pollTimer = null;
+
+        if (this.inFlight.size > 0) {
+            console.log(`[JOBS] Waiting for ${this.inFlight.size} running jobs...`);
+            await Promise.allSettled([...this.inFlight]);
+        }
+        console.log('[JOBS] Job runner stopped');
+    }
+
+    private poll(): void {
+        if (this.stopping) return;
+
+        const now = Math.floor(Date.now() / 1000);
+        for (const type of Object.keys(HANDLERS) as JobType[]) {
+            const free = concurrencyLimit(type) - (this.running.get(type) ?? 0);
+            if (free <= 0) continue;
+
+            for (const job of claimJobs(type, free, now)) {
+                this.launch(job);
+            }
+        }
+    }
+
+    private launch(job: JobRow): void {
+        this.running.set(job.type, (this.running.get(job.type) ?? 0) + 1);
+
+        const task = this.run(job).finally(() => {
+            this.running.set(job.type, (this.running.get(job.type) ?? 1) - 1);
+            this.inFlight.delete(task);
+        });
+        this.inFlight.add(task);
+    }
+
+    private async run(job: JobRow): Promise<void> {
+        const config = getConfig();
+
+        try {
+            const outcome = await HANDLERS[job.type](this.connection, job);
+
+            if (outcome === 'requeue') {
+                requeueJob(job.id, Math.floor(Date.now() / 1000) + REQUEUE_DELAY_SECONDS);
+            } else {
+                completeJob(job.id);
+            }
+        } catch (err) {
+            const attempt = job.attempts + 1;
+            const message = err instanceof Error ? err.message : String(err);
+            const retryAfterTs = Math.floor(Date.now() / 1000) + retryDelaySeconds(attempt);
+            const status = failJob(job.id, message, config.jobMaxAttempts, retryAfterTs);
+
+            if (status === 'dead') {
+                console.error(`[JOBS] ${job.type} ${job.job_key.slice(0, 8)}... dead-lettered after ${attempt} attempts: ${message}`);
+            } else {
+                console.warn(`[JOBS] ${job.type} ${job.job_key.slice(0, 8)}... failed (attempt ${attempt}/${config.jobMaxAttempts}), ` +
+                    `retrying in ${retryDelaySeconds(attempt)}s: ${message}`);
+            }
+        }
+    }
+}
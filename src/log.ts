@@ -3,6 +3,9 @@ import * as path from 'path';
 import { getConfig } from './config';
 import { SwapResult } from './jupiter';
 import { RewardRoundResult } from './rewards';
+import { LotteryContext } from './scoring';
+import { EligibilitySnapshot } from './lottery';
+import { RoundEntryLeaf } from './merkle';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Ensure Public Directory
@@ -62,18 +65,57 @@ export interface RewardLogEntry {
     treasuryPubkey: string;
     treasuryBalanceBefore: string;
     totalDistributed: string;
-    perWinnerAmount: string;
+    distributionMode: string;
     winnersCount: number;
     winners: Array<{
         wallet: string;
         weight: number;
         rewardAmount: number;
+        rewardAmountRaw: string;
     }>;
+    /** Commit-reveal inputs needed to reproduce the draw */
+    lottery: LotteryLogEntry | null;
+    /** Merkle root over every entry in the draw */
+    entries: EntriesLogEntry | null;
     transactions: string[];
     success: boolean;
     error?: string;
 }
 
+export interface LotteryLogEntry {
+    commitment: string;
+    targetSlot: number;
+    revealSlot: number;
+    blockhash: string;
+    seed: string;
+    snapshotFile: string;
+}
+
+export interface EntriesLogEntry {
+    root: string;
+    count: number;
+    /** All entries, relative to the public directory */
+    entriesFile: string;
+}
+
+function entriesLogEntry(result: RewardRoundResult): EntriesLogEntry | null {
+    if (result.entriesRoot === undefined) return null;
+    return {
+        root: result.entriesRoot,
+        count: result.entriesCount ?? 0,
+        entriesFile: entriesFileName(result.roundId),
+    };
+}
+
+function lotteryLogEntry(context: LotteryContext | undefined): LotteryLogEntry | null {
+    if (!context) return null;
+    return {
+        ...context.seedInputs,
+        seed: context.seed,
+        snapshotFile: commitmentFileName(context.roundId),
+    };
+}
+
 export function writeRewardLog(result: RewardRoundResult): void {
     const config = getConfig();
     const publicDir = ensurePublicDir();
@@ -85,13 +127,16 @@ export function writeRewardLog(result: RewardRoundResult): void {
         treasuryPubkey: config.treasuryPubkey.toBase58(),
         treasuryBalanceBefore: result.treasuryBalanceBefore.toString(),
         totalDistributed: result.totalDistributed.toString(),
-        perWinnerAmount: result.perWinnerAmount.toString(),
+        distributionMode: result.distributionMode,
         winnersCount: result.winners.length,
         winners: result.winners.map(w => ({
             wallet: w.wallet,
             weight: w.weight,
             rewardAmount: w.rewardAmountUi,
+            rewardAmountRaw: w.rewardAmountRaw.toString(),
         })),
+        lottery: lotteryLogEntry(result.lotteryContext),
+        entries: entriesLogEntry(result),
         transactions: result.transactions,
         success: result.success,
         error: result.error,
@@ -103,15 +148,93 @@ export function writeRewardLog(result: RewardRoundResult): void {
     console.log(`[LOG] Wrote reward log to ${filePath}`);
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Round Entries Logs
+// ─────────────────────────────────────────────────────────────────────────────
+
+function entriesFileName(roundId: string): string {
+    return path.join('entries', `${roundId}.json`);
+}
+
+/**
+ * Publish every entry of a round's draw to `entries/<roundId>.json`, so
+ * holders can rebuild the Merkle root and prove they were (or were not)
+ * in the draw.
+ */
+export function writeRoundEntriesLog(roundId: string, root: string, entries: RoundEntryLeaf[]): void {
+    const publicDir = ensurePublicDir();
+    const entriesDir = path.join(publicDir, 'entries');
+    if (!fs.existsSync(entriesDir)) {
+        fs.mkdirSync(entriesDir, { recursive: true });
+    }
+
+    const filePath = path.join(publicDir, entriesFileName(roundId));
+    fs.writeFileSync(filePath, JSON.stringify({ roundId, root, entries }, null, 2));
+
+    console.log(`[LOG] Wrote ${entries.length} round entries to ${filePath}`);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Commitment Logs
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CommitLogEntry {
+    roundId: string;
+    commitment: string;
+    targetSlot: number;
+    eligibleCount: number;
+    /** Full snapshot, relative to the public directory */
+    snapshotFile: string;
+}
+
+function commitmentFileName(roundId: string): string {
+    return path.join('commitments', `${roundId}.json`);
+}
+
+/**
+ * Publish a round's commitment before its seed exists: the full snapshot
+ * goes to `commitments/<roundId>.json` (and `last_commitment.json`), and a
+ * 'commit' entry is appended to history.jsonl.
+ */
+export function writeCommitmentLog(snapshot: EligibilitySnapshot, commitment: string): void {
+    const publicDir = ensurePublicDir();
+    const snapshotFile = commitmentFileName(snapshot.roundId);
+    const commitmentsDir = path.join(publicDir, 'commitments');
+    if (!fs.existsSync(commitmentsDir)) {
+        fs.mkdirSync(commitmentsDir, { recursive: true });
+    }
+
+    const content = JSON.stringify({ commitment, snapshot }, null, 2);
+    fs.writeFileSync(path.join(publicDir, snapshotFile), content);
+    fs.writeFileSync(path.join(publicDir, 'last_commitment.json'), content);
+
+    const now = Math.floor(Date.now() / 1000);
+    const entry: HistoryEntry = {
+        type: 'commit',
+        timestamp: now,
+        timestampIso: new Date(now * 1000).toISOString(),
+        data: {
+            roundId: snapshot.roundId,
+            commitment,
+            targetSlot: snapshot.targetSlot,
+            eligibleCount: snapshot.entries.length,
+            snapshotFile,
+        },
+    };
+    fs.appendFileSync(path.join(publicDir, 'history.jsonl'), JSON.stringify(entry) + '\n');
+
+    console.log(`[LOG] Published commitment ${commitment.slice(0, 16)}... for round ${snapshot.roundId}`);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // History Log (JSONL)
 // ─────────────────────────────────────────────────────────────────────────────
 
 export interface HistoryEntry {
-    type: 'buy' | 'reward';
+    type: 'buy' | 'reward' | 'commit';
     timestamp: number;
     timestampIso: string;
-    data: BuyLogEntry | RewardLogEntry;
+    data: BuyLogEntry | RewardLogEntry | CommitLogEntry;
 }
 
 export function appendHistoryLog(
@@ -154,13 +277,16 @@ export function appendHistoryLog(
                 treasuryPubkey: config.treasuryPubkey.toBase58(),
                 treasuryBalanceBefore: rewardResult.treasuryBalanceBefore.toString(),
                 totalDistributed: rewardResult.totalDistributed.toString(),
-                perWinnerAmount: rewardResult.perWinnerAmount.toString(),
+                distributionMode: rewardResult.distributionMode,
                 winnersCount: rewardResult.winners.length,
                 winners: rewardResult.winners.map(w => ({
                     wallet: w.wallet,
                     weight: w.weight,
                     rewardAmount: w.rewardAmountUi,
+                    rewardAmountRaw: w.rewardAmountRaw.toString(),
                 })),
+                lottery: lotteryLogEntry(rewardResult.lotteryContext),
+                entries: entriesLogEntry(rewardResult),
                 transactions: rewardResult.transactions,
                 success: rewardResult.success,
                 error: rewardResult.error,
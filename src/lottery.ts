@@ -0,0 +1,206 @@
+// Commit-reveal lottery primitives: snapshot commitment, seed derivation,
+// seeded PRNG and weighted draw. Only imports the weight types and
+// @noble/hashes (audited, pure JS), not Node's crypto, so the same code
+// reproduces a draw in the browser from the published inputs alone.
+
+import { sha256 as nobleSha256 } from '@noble/hashes/sha2';
+import { ClusterMode, CooldownPolicy, WeightParams, WeightStrategyName } from './weights';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SHA-256
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * SHA-256 digest (FIPS 180-4).
+ */
+export function sha256(data: Uint8Array): Uint8Array {
+    return nobleSha256(data);
+}
+
+export function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function fromHex(hex: string): Uint8Array {
+    if (hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) {
+        throw new Error(`Invalid hex string: ${hex}`);
+    }
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    return bytes;
+}
+
+function utf8(text: string): Uint8Array {
+    return new TextEncoder().encode(text);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Commitment
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** One wallet in the eligible set, with the inputs its weight came from */
+export interface SnapshotEntry {
+    wallet: string;
+    walletAgeDays: number;
+    streakRounds: number;
+    twbScore: number;
+    tokenBalanceUi: number;
+    clusterId: string | null;
+    /** Reward rounds since the wallet last won (null = never); absent before cooldowns */
+    roundsSinceWin?: number | null;
+    weight: number;
+}
+
+/**
+ * The eligible set a round is drawn from, fixed before the seed is known.
+ * Entries are sorted by wallet; the draw walks them in that order.
+ */
+export interface EligibilitySnapshot {
+    roundId: string;
+    tokenMint: string;
+    createdTs: number;
+    /** Slot whose blockhash (or that of the first block after it) seeds the draw */
+    targetSlot: number;
+    winnersCount: number;
+    /** How entry weights were computed from their inputs */
+    weighting: {
+        strategy: WeightStrategyName;
+        params: WeightParams;
+        clusterMode: ClusterMode;
+        /** Absent in snapshots from before winner cooldowns (same as off) */
+        cooldown?: CooldownPolicy;
+    };
+    entries: SnapshotEntry[];
+}
+
+/**
+ * Commitment = hex SHA-256 of the snapshot's canonical JSON: keys in the
+ * order of the interfaces above, entries sorted by wallet. Absent optional
+ * fields are left out, so older snapshots hash as they did when published.
+ */
+export function computeCommitment(snapshot: EligibilitySnapshot): string {
+    const entries = [...snapshot.entries]
+        .sort((a, b) => compareWallets(a.wallet, b.wallet))
+        .map(entry => ({
+            wallet: entry.wallet,
+            walletAgeDays: entry.walletAgeDays,
+            streakRounds: entry.streakRounds,
+            twbScore: entry.twbScore,
+            tokenBalanceUi: entry.tokenBalanceUi,
+            clusterId: entry.clusterId,
+            roundsSinceWin: entry.roundsSinceWin,
+            weight: entry.weight,
+        }));
+
+    const canonical = JSON.stringify({
+        roundId: snapshot.roundId,
+        tokenMint: snapshot.tokenMint,
+        createdTs: snapshot.createdTs,
+        targetSlot: snapshot.targetSlot,
+        winnersCount: snapshot.winnersCount,
+        weighting: {
+            strategy: snapshot.weighting.strategy,
+            params: snapshot.weighting.params,
+            clusterMode: snapshot.weighting.clusterMode,
+            cooldown: snapshot.weighting.cooldown,
+        },
+        entries,
+    });
+
+    return toHex(sha256(utf8(canonical)));
+}
+
+/**
+ * Seed = hex SHA-256 over the UTF-8 bytes of the revealed blockhash (base58)
+ * followed by the commitment (hex).
+ */
+export function deriveSeed(blockhash: string, commitment: string): string {
+    return toHex(sha256(utf8(blockhash + commitment)));
+}
+
+function compareWallets(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Seeded PRNG (SHA-256 counter mode)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Deterministic PRNG over a 256-bit seed. The n-th output (n from 0) is
+ * SHA-256(seed bytes ‖ n as 4-byte big-endian); its first 53 bits, divided
+ * by 2^53, give a float in [0, 1).
+ */
+export function createSeededRandom(seedHex: string): () => number {
+    const seed = fromHex(seedHex);
+    if (seed.length !== 32) {
+        throw new Error(`Seed must be 32 bytes, got ${seed.length}`);
+    }
+
+    const input = new Uint8Array(36);
+    input.set(seed);
+    const counterView = new DataView(input.buffer, 32, 4);
+    let counter = 0;
+
+    return function () {
+        counterView.setUint32(0, counter++);
+        const view = new DataView(sha256(input).buffer);
+        const high = view.getUint32(0) >>> 11; // 21 bits
+        const low = view.getUint32(4);         // 32 bits
+        return (high * 0x100000000 + low) / 0x20000000000000;
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Weighted Draw
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Weighted draw without replacement. Each pick takes one random value r,
+ * scales it to the remaining total weight and walks the remaining entries
+ * in order until the cumulative weight exceeds it. Zero-weight entries are
+ * never picked; the draw ends early if no weight remains.
+ */
+export function drawWeighted<T extends { weight: number }>(
+    entries: T[],
+    count: number,
+    random: () => number
+): T[] {
+    const remaining = [...entries];
+    const winners: T[] = [];
+
+    while (winners.length < count && remaining.length > 0) {
+        const totalWeight = remaining.reduce((sum, entry) => sum + entry.weight, 0);
+        if (totalWeight <= 0) break;
+
+        const target = random() * totalWeight;
+        let cumulative = 0;
+        let index = -1;
+        let lastPositive = -1;
+
+        for (let i = 0; i < remaining.length; i++) {
+            if (remaining[i].weight <= 0) continue;
+            lastPositive = i;
+            cumulative += remaining[i].weight;
+            if (target < cumulative) {
+                index = i;
+                break;
+            }
+        }
+
+        // Floating-point rounding can leave target just past the last entry
+        if (index === -1) index = lastPositive;
+
+        winners.push(remaining[index]);
+        remaining.splice(index, 1);
+    }
+
+    return winners;
+}
+
+/**
+ * Order entries canonically (by wallet) before drawing.
+ */
+export function sortSnapshotEntries<T extends { wallet: string }>(entries: T[]): T[] {
+    return [...entries].sort((a, b) => compareWallets(a.wallet, b.wallet));
+}
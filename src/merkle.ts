@@ -0,0 +1,192 @@
+// Merkle tree over a reward round's entries. Browser-safe like the lottery
+// module, so holders can check a proof from the published files alone.
+
+import { sha256, toHex, fromHex, sortSnapshotEntries } from './lottery';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Round Entry Leaves
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** One wallet in a round's draw, as committed to by the entries root */
+export interface RoundEntryLeaf {
+    wallet: string;
+    weight: number;
+    /** Every factor that went into the weight, by name (incl. `cluster`) */
+    factors: Record<string, number>;
+    tokenBalanceRaw: string;
+    won: boolean;
+    rewardAmountRaw: string;
+}
+
+/**
+ * Leaf hash = SHA-256(0x00 ‖ canonical JSON of the entry), keys in the
+ * order of RoundEntryLeaf and factors sorted by name.
+ */
+export function hashEntryLeaf(entry: RoundEntryLeaf): string {
+    const factors: Record<string, number> = {};
+    for (const name of Object.keys(entry.factors).sort()) {
+        factors[name] = entry.factors[name];
+    }
+
+    const canonical = JSON.stringify({
+        wallet: entry.wallet,
+        weight: entry.weight,
+        factors,
+        tokenBalanceRaw: entry.tokenBalanceRaw,
+        won: entry.won,
+        rewardAmountRaw: entry.rewardAmountRaw,
+    });
+
+    return toHex(sha256(concat(new Uint8Array([0x00]), new TextEncoder().encode(canonical))));
+}
+
+function hashNode(left: string, right: string): string {
+    return toHex(sha256(concat(new Uint8Array([0x01]), fromHex(left), fromHex(right))));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tree
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build every level of the tree, leaves first. A node without a sibling is
+ * carried up to the next level unchanged.
+ */
+function buildLevels(leafHashes: string[]): string[][] {
+    const levels = [leafHashes];
+    while (levels[levels.length - 1].length > 1) {
+        const level = levels[levels.length - 1];
+        const next: string[] = [];
+        for (let i = 0; i < level.length; i += 2) {
+            next.push(i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i]);
+        }
+        levels.push(next);
+    }
+    return levels;
+}
+
+/**
+ * Bind the leaf count into the root: SHA-256(0x02 ‖ count as 4-byte
+ * big-endian ‖ tree root), the tree root being empty for no entries. A
+ * proof's claimed position is then checked against the real tree shape.
+ */
+function sealRoot(leafCount: number, treeRoot: string | null): string {
+    const count = new Uint8Array(4);
+    new DataView(count.buffer).setUint32(0, leafCount);
+    return toHex(sha256(concat(new Uint8Array([0x02]), count, treeRoot ? fromHex(treeRoot) : new Uint8Array(0))));
+}
+
+/**
+ * Merkle root over a round's entries, sorted by wallet.
+ */
+export function computeEntriesRoot(entries: RoundEntryLeaf[]): string {
+    if (entries.length === 0) return sealRoot(0, null);
+    const levels = buildLevels(sortSnapshotEntries(entries).map(hashEntryLeaf));
+    return sealRoot(entries.length, levels[levels.length - 1][0]);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Proofs
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Position of a leaf among the sorted entries plus its sibling hashes, bottom up */
+export interface InclusionProof {
+    entry: RoundEntryLeaf;
+    index: number;
+    leafCount: number;
+    siblings: string[];
+}
+
+/**
+ * Proof that a wallet was not in the draw: the sorted neighbours it would
+ * sit between (null at either end), each with an inclusion proof.
+ */
+export interface ExclusionProof {
+    wallet: string;
+    before: InclusionProof | null;
+    after: InclusionProof | null;
+}
+
+function proveIndex(sorted: RoundEntryLeaf[], levels: string[][], index: number): InclusionProof {
+    const siblings: string[] = [];
+    let position = index;
+    for (const level of levels.slice(0, -1)) {
+        const sibling = position % 2 === 0 ? position + 1 : position - 1;
+        if (sibling < level.length) siblings.push(level[sibling]);
+        position = Math.floor(position / 2);
+    }
+    return { entry: sorted[index], index, leafCount: sorted.length, siblings };
+}
+
+/**
+ * Prove a wallet was or was not in a round: an inclusion proof for its
+ * entry, or an exclusion proof from its would-be neighbours.
+ */
+export function proveEntry(entries: RoundEntryLeaf[], wallet: string): InclusionProof | ExclusionProof {
+    const sorted = sortSnapshotEntries(entries);
+    const levels = buildLevels(sorted.map(hashEntryLeaf));
+
+    const index = sorted.findIndex(entry => entry.wallet >= wallet);
+    if (index >= 0 && sorted[index].wallet === wallet) {
+        return proveIndex(sorted, levels, index);
+    }
+
+    const afterIndex = index >= 0 ? index : sorted.length;
+    return {
+        wallet,
+        before: afterIndex > 0 ? proveIndex(sorted, levels, afterIndex - 1) : null,
+        after: afterIndex < sorted.length ? proveIndex(sorted, levels, afterIndex) : null,
+    };
+}
+
+/**
+ * Check an inclusion proof against a published root.
+ */
+export function verifyInclusionProof(proof: InclusionProof, root: string): boolean {
+    if (proof.index < 0 || proof.index >= proof.leafCount) return false;
+
+    let hash = hashEntryLeaf(proof.entry);
+    let position = proof.index;
+    let width = proof.leafCount;
+    let next = 0;
+
+    while (width > 1) {
+        const sibling = position % 2 === 0 ? position + 1 : position - 1;
+        if (sibling < width) {
+            const siblingHash = proof.siblings[next++];
+            if (siblingHash === undefined) return false;
+            hash = position % 2 === 0 ? hashNode(hash, siblingHash) : hashNode(siblingHash, hash);
+        }
+        position = Math.floor(position / 2);
+        width = Math.ceil(width / 2);
+    }
+
+    return next === proof.siblings.length && sealRoot(proof.leafCount, hash) === root;
+}
+
+/**
+ * Check an exclusion proof: both neighbours are in the tree, adjacent (or
+ * at the ends), and the wallet sorts strictly between them.
+ */
+export function verifyExclusionProof(proof: ExclusionProof, root: string): boolean {
+    const { wallet, before, after } = proof;
+
+    if (!before && !after) return root === sealRoot(0, null);
+    if (before && !(verifyInclusionProof(before, root) && before.entry.wallet < wallet)) return false;
+    if (after && !(verifyInclusionProof(after, root) && wallet < after.entry.wallet)) return false;
+
+    if (before && after) {
+        return after.index === before.index + 1 && after.leafCount === before.leafCount;
+    }
+    return before ? before.index === before.leafCount - 1 : after!.index === 0;
+}
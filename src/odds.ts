@@ -0,0 +1,270 @@
+import { Connection } from '@solana/web3.js';
+import { getConfig } from './config';
+import { getTokenDecimals } from './token';
+import { getLastBalanceRefreshTs } from './balances';
+import { getEligibleHoldersWithWeights } from './scoring';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Odds Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type OddsMethod = 'exact' | 'monte_carlo';
+
+export interface WalletOdds {
+    wallet: string;
+    weight: number;
+    /** Probability of winning at least once this round */
+    probability: number;
+    /** Standard error of a Monte Carlo estimate (0 when exact) */
+    standardError: number;
+    /** weight / total weight: the odds of a single-winner draw */
+    naiveShare: number;
+}
+
+export interface OddsReport {
+    /** Balance refresh the weights were computed after (cache key) */
+    refreshTs: number | null;
+    computedTs: number;
+    method: OddsMethod;
+    /** Monte Carlo trials, null when exact */
+    simulations: number | null;
+    winnersPerRound: number;
+    eligibleCount: number;
+    totalWeight: number;
+    /** Highest probability first */
+    wallets: WalletOdds[];
+}
+
+export interface WinProbabilities {
+    method: OddsMethod;
+    simulations: number | null;
+    probabilities: number[];
+    standardErrors: number[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Probability Calculation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Probability that each weight wins at least once when `count` winners are
+ * drawn as `drawWeighted` does: weighted, without replacement, zero weights
+ * never drawn.
+ *
+ * Exact when it is trivial (one winner, or at least as many winners as
+ * positive weights) or when at most `exactMaxWallets` wallets have weight,
+ * by summing over every set of winners. Otherwise estimated by Monte Carlo.
+ */
+export function computeWinProbabilities(
+    weights: number[],
+    count: number,
+    exactMaxWallets: number,
+    simulations: number,
+    seed: number
+): WinProbabilities {
+    const positive = weights.map((weight, index) => ({ weight, index })).filter(w => w.weight > 0);
+    const probabilities = weights.map(() => 0);
+    const standardErrors = weights.map(() => 0);
+    const exact = (values: number[]): WinProbabilities => {
+        positive.forEach((w, i) => { probabilities[w.index] = values[i]; });
+        return { method: 'exact', simulations: null, probabilities, standardErrors };
+    };
+
+    if (positive.length === 0 || count <= 0) {
+        return { method: 'exact', simulations: null, probabilities, standardErrors };
+    }
+    if (count >= positive.length) {
+        return exact(positive.map(() => 1));
+    }
+
+    const positiveWeights = positive.map(w => w.weight);
+    if (count === 1) {
+        const total = positiveWeights.reduce((sum, weight) => sum + weight, 0);
+        return exact(positiveWeights.map(weight => weight / total));
+    }
+    if (positive.length <= exactMaxWallets) {
+        return exact(exactProbabilities(positiveWeights, count));
+    }
+
+    const estimate = monteCarloProbabilities(positiveWeights, count, simulations, seed);
+    positive.forEach((w, i) => {
+        probabilities[w.index] = estimate[i];
+        standardErrors[w.index] = Math.sqrt(estimate[i] * (1 - estimate[i]) / simulations);
+    });
+
+    return { method: 'monte_carlo', simulations, probabilities, standardErrors };
+}
+
+/**
+ * Exact probabilities over all 2^n sets of drawn wallets: the probability
+ * of each set is pushed forward one draw at a time (sets only grow, so
+ * numeric order visits a set after every set it can come from).
+ */
+function exactProbabilities(weights: number[], count: number): number[] {
+    const n = weights.length;
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    const reach = new Float64Array(1 << n);
+    const drawnWeight = new Float64Array(1 << n);
+    const drawnCount = new Uint8Array(1 << n);
+    const result = new Array<number>(n).fill(0);
+    reach[0] = 1;
+
+    for (let set = 0; set < reach.length; set++) {
+        if (reach[set] === 0) continue;
+
+        if (drawnCount[set] === count) {
+            for (let i = 0; i < n; i++) {
+                if (set & (1 << i)) result[i] += reach[set];
+            }
+            continue;
+        }
+
+        const remaining = total - drawnWeight[set];
+        for (let i = 0; i < n; i++) {
+            if (set & (1 << i)) continue;
+            const next = set | (1 << i);
+            reach[next] += reach[set] * weights[i] / remaining;
+            drawnWeight[next] = drawnWeight[set] + weights[i];
+            drawnCount[next] = drawnCount[set] + 1;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Monte Carlo estimate. Drawing weighted without replacement is equivalent
+ * to giving every wallet an exponential clock of rate `weight` and taking
+ * the `count` that ring first, so each trial is one pass over the wallets.
+ */
+function monteCarloProbabilities(weights: number[], count: number, simulations: number, seed: number): number[] {
+    const random = mulberry32(seed);
+    const wins = new Array<number>(weights.length).fill(0);
+    const keys = new Float64Array(count);
+    const picks = new Int32Array(count);
+
+    for (let trial = 0; trial < simulations; trial++) {
+        let filled = 0;
+        let worst = 0;
+
+        for (let i = 0; i < weights.length; i++) {
+            const key = -Math.log(1 - random()) / weights[i];
+
+            if (filled < count) {
+                keys[filled] = key;
+                picks[filled] = i;
+                if (key > keys[worst]) worst = filled;
+                filled++;
+            } else if (key < keys[worst]) {
+                keys[worst] = key;
+                picks[worst] = i;
+                for (let j = 0; j < count; j++) {
+                    if (keys[j] > keys[worst]) worst = j;
+                }
+            }
+        }
+
+        for (let j = 0; j < count; j++) wins[picks[j]]++;
+    }
+
+    return wins.map(w => w / simulations);
+}
+
+/**
+ * Fast 32-bit PRNG for simulations. Not used for the draw itself.
+ */
+function mulberry32(seed: number): () => number {
+    let state = seed >>> 0;
+    return function () {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cached Report
+// ─────────────────────────────────────────────────────────────────────────────
+
+let cachedReport: Promise<OddsReport> | null = null;
+let cachedRefreshTs: number | null | undefined;
+
+async function buildOddsReport(connection: Connection, refreshTs: number | null): Promise<OddsReport> {
+    const config = getConfig();
+    const decimals = await getTokenDecimals(connection);
+    const eligible = getEligibleHoldersWithWeights(decimals);
+    const weights = eligible.map(h => h.weight);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    const result = computeWinProbabilities(
+        weights,
+        config.winnersPerRound,
+        config.oddsExactMaxWallets,
+        config.oddsSimulations,
+        refreshTs ?? 0
+    );
+
+    const wallets: WalletOdds[] = eligible.map((holder, i) => ({
+        wallet: holder.wallet,
+        weight: holder.weight,
+        probability: result.probabilities[i],
+        standardError: result.standardErrors[i],
+        naiveShare: totalWeight > 0 ? holder.weight / totalWeight : 0,
+    }));
+    wallets.sort((a, b) => b.probability - a.probability || (a.wallet < b.wallet ? -1 : 1));
+
+    console.log(`[ODDS] Computed ${result.method} odds for ${wallets.length} eligible holders`);
+
+    return {
+        refreshTs,
+        computedTs: Math.floor(Date.now() / 1000),
+        method: result.method,
+        simulations: result.simulations,
+        winnersPerRound: config.winnersPerRound,
+        eligibleCount: wallets.length,
+        totalWeight,
+        wallets,
+    };
+}
+
+/**
+ * Odds for every eligible holder. Computed once per balance refresh and
+ * served from memory until the next one.
+ */
+export function getOddsReport(connection: Connection): Promise<OddsReport> {
+    const refreshTs = getLastBalanceRefreshTs();
+
+    if (!cachedReport || cachedRefreshTs !== refreshTs) {
+        const pending = buildOddsReport(connection, refreshTs);
+        cachedRefreshTs = refreshTs;
+        cachedReport = pending;
+        pending.catch(() => {
+            // Do not cache failures
+            if (cachedReport === pending) cachedReport = null;
+        });
+    }
+
+    return cachedReport;
+}
+
+export function printOddsReport(report: OddsReport): void {
+    const percent = (p: number): string => `${(p * 100).toFixed(2)}%`;
+    const method = report.method === 'exact' ? 'exact' : `Monte Carlo, ${report.simulations} trials`;
+
+    console.log('');
+    console.log('[ODDS] ═══════════════════════════════════════════════════════');
+    console.log(`[ODDS]   Eligible holders: ${report.eligibleCount}`);
+    console.log(`[ODDS]   Winners per round: ${report.winnersPerRound}`);
+    console.log(`[ODDS]   Method: ${method}`);
+    console.log('[ODDS] ═══════════════════════════════════════════════════════');
+
+    for (const odds of report.wallets) {
+        const error = odds.standardError > 0 ? ` ±${percent(odds.standardError)}` : '';
+        console.log(`[ODDS]   ${odds.wallet}  ${percent(odds.probability)}${error}` +
+            `  (weight ${odds.weight.toFixed(4)}, ${percent(odds.naiveShare)} of total)`);
+    }
+
+    console.log('');
+}
@@ -0,0 +1,381 @@
+import * as crypto from 'crypto';
+import bs58 from 'bs58';
+import { PublicKey } from '@solana/web3.js';
+import { HeliusEnrichedTransaction, HeliusInstruction } from './sources';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Program Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** pump.fun bonding-curve program */
+export const PUMP_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+
+/** PumpSwap AMM program (post-graduation pools) */
+export const PUMP_AMM_PROGRAM_ID = 'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA';
+
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+
+/** pump.fun mints always use 6 decimals */
+const PUMP_TOKEN_DECIMALS = 6;
+
+/**
+ * Anchor discriminator: first 8 bytes of sha256("<namespace>:<name>").
+ */
+function anchorDiscriminator(preimage: string): Buffer {
+    return crypto.createHash('sha256').update(preimage).digest().subarray(0, 8);
+}
+
+const IX_BUY = anchorDiscriminator('global:buy');
+const IX_SELL = anchorDiscriminator('global:sell');
+
+// Events emitted through emit_cpi! arrive as a self-invocation whose data is
+// EVENT_IX_TAG followed by the event discriminator and the borsh payload.
+const EVENT_IX_TAG = anchorDiscriminator('anchor:event');
+const EVENT_TRADE = anchorDiscriminator('event:TradeEvent');
+const EVENT_AMM_BUY = anchorDiscriminator('event:BuyEvent');
+const EVENT_AMM_SELL = anchorDiscriminator('event:SellEvent');
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Decoded Trade
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface DecodedTrade {
+    program: 'pump' | 'pumpswap';
+    direction: 'buy' | 'sell';
+    user: string;
+    mint: string;
+    /** SOL paid (buy, incl. fees) or received (sell, net of fees), in lamports */
+    solLamports: bigint;
+    tokenAmountRaw: bigint;
+    tokenDecimals: number;
+    /**
+     * 'event' when taken from the program's own trade event, 'instruction'
+     * otherwise. Instruction trades carry the slippage bound in solLamports
+     * (max SOL in for a buy, min SOL out for a sell), not the amount traded.
+     */
+    origin: 'event' | 'instruction';
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Borsh Reader
+// ─────────────────────────────────────────────────────────────────────────────
+
+class Reader {
+    private offset = 0;
+
+    constructor(private readonly buf: Buffer) { }
+
+    remaining(): number {
+        return this.buf.length - this.offset;
+    }
+
+    u64(): bigint {
+        const value = this.buf.readBigUInt64LE(this.offset);
+        this.offset += 8;
+        return value;
+    }
+
+    i64(): bigint {
+        const value = this.buf.readBigInt64LE(this.offset);
+        this.offset += 8;
+        return value;
+    }
+
+    bool(): boolean {
+        const value = this.buf.readUInt8(this.offset) !== 0;
+        this.offset += 1;
+        return value;
+    }
+
+    pubkey(): string {
+        const value = new PublicKey(this.buf.subarray(this.offset, this.offset + 32)).toBase58();
+        this.offset += 32;
+        return value;
+    }
+}
+
+function startsWith(data: Buffer, ...prefixes: Buffer[]): boolean {
+    let offset = 0;
+    for (const prefix of prefixes) {
+        if (data.length < offset + prefix.length) return false;
+        if (!data.subarray(offset, offset + prefix.length).equals(prefix)) return false;
+        offset += prefix.length;
+    }
+    return true;
+}
+
+function decodeData(ix: HeliusInstruction): Buffer | null {
+    if (!ix.data) return null;
+    try {
+        return Buffer.from(bs58.decode(ix.data));
+    } catch {
+        return null;
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// pump.fun Bonding Curve
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * TradeEvent layout:
+ *   mint, sol_amount, token_amount, is_buy, user, timestamp,
+ *   virtual_sol_reserves, virtual_token_reserves, real_sol_reserves,
+ *   real_token_reserves, [fee_recipient, fee_basis_points, fee,
+ *   creator, creator_fee_basis_points, creator_fee]
+ * The bracketed fee fields only exist on newer program versions.
+ */
+function decodePumpTradeEvent(payload: Buffer): DecodedTrade | null {
+    const r = new Reader(payload);
+    if (r.remaining() < 32 + 8 + 8 + 1 + 32) return null;
+
+    const mint = r.pubkey();
+    const solAmount = r.u64();
+    const tokenAmount = r.u64();
+    const isBuy = r.bool();
+    const user = r.pubkey();
+
+    let fees = BigInt(0);
+    // timestamp + 4 reserves, then fee_recipient + fee_bps + fee
+    if (r.remaining() >= 8 * 5 + 32 + 8 + 8) {
+        r.i64();
+        r.u64(); r.u64(); r.u64(); r.u64();
+        r.pubkey();
+        r.u64();
+        fees += r.u64();
+        // creator + creator_fee_bps + creator_fee
+        if (r.remaining() >= 32 + 8 + 8) {
+            r.pubkey();
+            r.u64();
+            fees += r.u64();
+        }
+    }
+
+    return {
+        program: 'pump',
+        direction: isBuy ? 'buy' : 'sell',
+        user,
+        mint,
+        solLamports: isBuy ? solAmount + fees : solAmount - (fees > solAmount ? solAmount : fees),
+        tokenAmountRaw: tokenAmount,
+        tokenDecimals: PUMP_TOKEN_DECIMALS,
+        origin: 'event',
+    };
+}
+
+/**
+ * Instruction-only fallback: buy(amount, max_sol_cost) / sell(amount, min_sol_output).
+ * Accounts: [global, fee_recipient, mint, bonding_curve, associated_bonding_curve,
+ *            associated_user, user, ...]
+ * The SOL figure is the user's slippage bound, so callers should price the
+ * trade from balance deltas, bounded by it.
+ */
+function decodePumpInstruction(ix: HeliusInstruction, data: Buffer): DecodedTrade | null {
+    const isBuy = startsWith(data, IX_BUY);
+    const isSell = startsWith(data, IX_SELL);
+    if (!isBuy && !isSell) return null;
+    if (data.length < 8 + 16 || ix.accounts.length < 7) return null;
+
+    const r = new Reader(data.subarray(8));
+    const tokenAmount = r.u64();
+    const solBound = r.u64();
+
+    return {
+        program: 'pump',
+        direction: isBuy ? 'buy' : 'sell',
+        user: ix.accounts[6],
+        mint: ix.accounts[2],
+        solLamports: solBound,
+        tokenAmountRaw: tokenAmount,
+        tokenDecimals: PUMP_TOKEN_DECIMALS,
+        origin: 'instruction',
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PumpSwap AMM
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface AmmContext {
+    direction: 'buy' | 'sell';
+    user: string;
+    baseMint: string;
+    quoteMint: string;
+    baseAmount: bigint;
+    quoteBound: bigint;
+}
+
+/**
+ * buy(base_amount_out, max_quote_amount_in) / sell(base_amount_in, min_quote_amount_out).
+ * Accounts: [pool, user, global_config, base_mint, quote_mint, ...]
+ */
+function decodeAmmInstruction(ix: HeliusInstruction, data: Buffer): AmmContext | null {
+    const isBuy = startsWith(data, IX_BUY);
+    const isSell = startsWith(data, IX_SELL);
+    if (!isBuy && !isSell) return null;
+    if (data.length < 8 + 16 || ix.accounts.length < 5) return null;
+
+    const r = new Reader(data.subarray(8));
+
+    return {
+        direction: isBuy ? 'buy' : 'sell',
+        user: ix.accounts[1],
+        baseMint: ix.accounts[3],
+        quoteMint: ix.accounts[4],
+        baseAmount: r.u64(),
+        quoteBound: r.u64(),
+    };
+}
+
+/**
+ * Instruction-only fallback for a PumpSwap trade, like decodePumpInstruction.
+ * Only SOL-quoted pools can be priced.
+ */
+function ammContextToTrade(context: AmmContext): DecodedTrade | null {
+    if (context.quoteMint !== WSOL_MINT) return null;
+
+    return {
+        program: 'pumpswap',
+        direction: context.direction,
+        user: context.user,
+        mint: context.baseMint,
+        solLamports: context.quoteBound,
+        tokenAmountRaw: context.baseAmount,
+        tokenDecimals: PUMP_TOKEN_DECIMALS,
+        origin: 'instruction',
+    };
+}
+
+/**
+ * BuyEvent / SellEvent share a layout up to the user-facing quote amount:
+ *   timestamp, base_amount, quote_bound, user_base_reserves, user_quote_reserves,
+ *   pool_base_reserves, pool_quote_reserves, quote_amount, lp_fee_bps, lp_fee,
+ *   protocol_fee_bps, protocol_fee, quote_amount_with_fees, user_quote_amount,
+ *   pool, user, ...
+ * user_quote_amount is what the user actually paid (buy) or received (sell).
+ */
+function decodeAmmEvent(
+    payload: Buffer,
+    direction: 'buy' | 'sell',
+    context: AmmContext | null
+): DecodedTrade | null {
+    const r = new Reader(payload);
+    if (r.remaining() < 8 * 14 + 64) return null;
+
+    r.i64();
+    const baseAmount = r.u64();
+    for (let i = 0; i < 11; i++) r.u64();
+    const userQuoteAmount = r.u64();
+    r.pubkey();
+    const user = r.pubkey();
+
+    // The event does not carry mints; only SOL-quoted pools with a known base are trades we can price
+    if (!context || context.quoteMint !== WSOL_MINT) return null;
+
+    return {
+        program: 'pumpswap',
+        direction,
+        user,
+        mint: context.baseMint,
+        solLamports: userQuoteAmount,
+        tokenAmountRaw: baseAmount,
+        tokenDecimals: PUMP_TOKEN_DECIMALS,
+        origin: 'event',
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Transaction Decoder
+// ─────────────────────────────────────────────────────────────────────────────
+
+function flattenInstructions(tx: HeliusEnrichedTransaction): HeliusInstruction[] {
+    const flat: HeliusInstruction[] = [];
+    for (const ix of tx.instructions ?? []) {
+        flat.push(ix);
+        flat.push(...(ix.innerInstructions ?? []));
+    }
+    return flat;
+}
+
+/**
+ * Decode every pump.fun and PumpSwap trade on `tokenMint` in a transaction.
+ *
+ * Trade events are authoritative. If a pump.fun or PumpSwap instruction has
+ * no matching event (e.g. truncated inner instructions), the instruction
+ * itself is decoded and marked with origin 'instruction'.
+ */
+export function decodePumpTrades(
+    tx: HeliusEnrichedTransaction,
+    tokenMint: string
+): DecodedTrade[] {
+    const trades: DecodedTrade[] = [];
+    const instructionTrades: DecodedTrade[] = [];
+    let ammContext: AmmContext | null = null;
+
+    for (const ix of flattenInstructions(tx)) {
+        if (ix.programId !== PUMP_PROGRAM_ID && ix.programId !== PUMP_AMM_PROGRAM_ID) continue;
+
+        const data = decodeData(ix);
+        if (!data) continue;
+
+        if (startsWith(data, EVENT_IX_TAG)) {
+            const payload = data.subarray(16);
+            let trade: DecodedTrade | null = null;
+
+            if (ix.programId === PUMP_PROGRAM_ID && startsWith(data, EVENT_IX_TAG, EVENT_TRADE)) {
+                trade = decodePumpTradeEvent(payload);
+            } else if (ix.programId === PUMP_AMM_PROGRAM_ID && startsWith(data, EVENT_IX_TAG, EVENT_AMM_BUY)) {
+                trade = decodeAmmEvent(payload, 'buy', ammContext);
+            } else if (ix.programId === PUMP_AMM_PROGRAM_ID && startsWith(data, EVENT_IX_TAG, EVENT_AMM_SELL)) {
+                trade = decodeAmmEvent(payload, 'sell', ammContext);
+            }
+
+            if (trade && trade.mint === tokenMint) {
+                trades.push(trade);
+            }
+            continue;
+        }
+
+        let trade: DecodedTrade | null;
+        if (ix.programId === PUMP_PROGRAM_ID) {
+            trade = decodePumpInstruction(ix, data);
+        } else {
+            ammContext = decodeAmmInstruction(ix, data);
+            trade = ammContext && ammContextToTrade(ammContext);
+        }
+        if (trade && trade.mint === tokenMint) {
+            instructionTrades.push(trade);
+        }
+    }
+
+    // Fall back to instruction decoding for trades that emitted no event
+    for (const ixTrade of instructionTrades) {
+        const matched = trades.some(t =>
+            t.program === ixTrade.program && t.user === ixTrade.user && t.direction === ixTrade.direction
+        );
+        if (!matched) {
+            trades.push(ixTrade);
+        }
+    }
+
+    // Prefer the mint's real decimals when the transaction carries them
+    const decimals = findMintDecimals(tx, tokenMint);
+    if (decimals !== null) {
+        for (const trade of trades) {
+            trade.tokenDecimals = decimals;
+        }
+    }
+
+    return trades;
+}
+
+function findMintDecimals(tx: HeliusEnrichedTransaction, tokenMint: string): number | null {
+    for (const account of tx.accountData) {
+        for (const change of account.tokenBalanceChanges) {
+            if (change.mint === tokenMint) {
+                return change.rawTokenAmount.decimals;
+            }
+        }
+    }
+    return null;
+}
@@ -0,0 +1,339 @@
+import { Connection } from '@solana/web3.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConfig } from './config';
+import {
+    initDb,
+    getDb,
+    closeDb,
+    HolderRow,
+    RoundRow,
+    getAllHolders,
+    getHolder,
+    getEligibleHolders,
+    getHolderEventsBySignature,
+    getStoredTransactions,
+    countStoredTransactions,
+    getRounds,
+    updateHolderBalance,
+    updateStreakAndTwb,
+    recomputeBuyTotals,
+    LEGACY_BUY_SOURCE,
+    HolderEventKind,
+} from './db';
+import { replayTransaction } from './scan';
+import { HeliusEnrichedTransaction } from './sources';
+import { getTokenDecimals } from './token';
+import { computeTwb } from './twb';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Rebuild Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+const REPLAY_PAGE_SIZE = 500;
+
+/** Holder event kinds that add to the wallet's balance */
+const INCOMING_KINDS: HolderEventKind[] = ['buy', 'transfer_in', 'airdrop', 'reward_received'];
+
+export interface EligibilityChange {
+    wallet: string;
+    before: HolderRow | undefined;
+    after: HolderRow | undefined;
+}
+
+export interface RebuildReport {
+    rebuildPath: string;
+    transactionsReplayed: number;
+    roundsReplayed: number;
+    holdersChanged: number;
+    eligibleBefore: number;
+    eligibleAfter: number;
+    gained: EligibilityChange[];
+    lost: EligibilityChange[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Rebuild
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Path of the working copy the rebuild is written to.
+ */
+export function getRebuildPath(): string {
+    const config = getConfig();
+    return path.join(path.dirname(config.dbPath), 'bot.rebuild.db');
+}
+
+/**
+ * Rebuild derived holder state from scratch into a copy of the database.
+ *
+ * The live database is snapshotted with SQLite's online backup, and the copy
+ * has its buy ledger, holder events and derived holder columns cleared.
+ * Archived transactions are then replayed through the scan pipeline in
+ * chronological order, interleaved with reward rounds (each round re-applies
+ * streak and TWB to the holders eligible at that time). Balance refreshes
+ * newer than the replay are applied last, as a refresh would have.
+ *
+ * Wallet age (`first_seen_ts`) and blacklist flags come from outside the
+ * transaction history and are carried over as-is.
+ *
+ * The live database is only read. Leaves the live database open on return.
+ */
+export async function rebuildHolderState(connection: Connection): Promise<RebuildReport> {
+    const config = getConfig();
+    const decimals = await getTokenDecimals(connection);
+    const rebuildPath = getRebuildPath();
+    const now = Math.floor(Date.now() / 1000);
+
+    if (countStoredTransactions() === 0) {
+        throw new Error('Transaction archive is empty, nothing to replay');
+    }
+
+    // Snapshot the live database
+    removeDbFiles(rebuildPath);
+    await getDb().backup(rebuildPath);
+    console.log(`[REBUILD] Snapshot written to ${rebuildPath}`);
+
+    const oldHolders = new Map(getAllHolders().map(h => [h.wallet, h]));
+    const oldEligible = new Set(eligibleWallets(now));
+
+    // Work on the copy from here on
+    closeDb();
+    initDb(rebuildPath);
+
+    try {
+        resetDerivedState();
+
+        const rounds = getRounds('reward');
+        const balances = new Map<string, bigint>();
+        let roundIndex = 0;
+        let transactionsReplayed = 0;
+        let cursor: { ts: number; signature: string } | null = null;
+
+        for (;;) {
+            const page = getStoredTransactions(cursor, REPLAY_PAGE_SIZE);
+            if (page.length === 0) break;
+
+            for (const row of page) {
+                while (roundIndex < rounds.length && rounds[roundIndex].ts < row.ts) {
+                    replayRound(rounds[roundIndex++], decimals);
+                }
+
+                replayTransaction(JSON.parse(row.tx_json) as HeliusEnrichedTransaction);
+                applyBalanceChanges(row.signature, row.ts, balances);
+                transactionsReplayed++;
+            }
+
+            cursor = page[page.length - 1];
+            console.log(`[REBUILD] Replayed ${transactionsReplayed} transactions`);
+        }
+
+        while (roundIndex < rounds.length) {
+            replayRound(rounds[roundIndex++], decimals);
+        }
+
+        // Balance refreshes newer than anything replayed
+        for (const old of oldHolders.values()) {
+            if (old.last_balance_raw === null || old.last_balance_check_ts === null) continue;
+
+            const rebuilt = getHolder(old.wallet);
+            if (rebuilt?.last_balance_check_ts && rebuilt.last_balance_check_ts >= old.last_balance_check_ts) continue;
+
+            updateHolderBalance(old.wallet, old.last_balance_raw, old.last_balance_check_ts, rebuilt?.last_balance_raw ?? null);
+        }
+
+        // Diff eligibility
+        const newHolders = new Map(getAllHolders().map(h => [h.wallet, h]));
+        const newEligible = new Set(eligibleWallets(now));
+
+        const gained = [...newEligible]
+            .filter(w => !oldEligible.has(w))
+            .map(wallet => ({ wallet, before: oldHolders.get(wallet), after: newHolders.get(wallet) }));
+        const lost = [...oldEligible]
+            .filter(w => !newEligible.has(w))
+            .map(wallet => ({ wallet, before: oldHolders.get(wallet), after: newHolders.get(wallet) }));
+
+        let holdersChanged = 0;
+        for (const [wallet, after] of newHolders) {
+            if (changedFields(oldHolders.get(wallet), after).length > 0) holdersChanged++;
+        }
+
+        return {
+            rebuildPath,
+            transactionsReplayed,
+            roundsReplayed: rounds.length,
+            holdersChanged,
+            eligibleBefore: oldEligible.size,
+            eligibleAfter: newEligible.size,
+            gained,
+            lost,
+        };
+    } finally {
+        closeDb();
+        initDb(config.dbPath);
+    }
+}
+
+function eligibleWallets(now: number): string[] {
+    const config = getConfig();
+    return getEligibleHolders(
+        config.walletMinAgeDays,
+        config.minContinuitySeconds,
+        config.minCumulativeBuySol,
+        now
+    ).map(h => h.wallet);
+}
+
+/**
+ * Clear everything derived from transaction history (legacy carry-over buys
+ * are kept: they predate the archive, and replayed buys from before the
+ * upgrade fold into them instead of adding up).
+ */
+function resetDerivedState(): void {
+    getDb().exec(`
+        DELETE FROM buys WHERE source != '${LEGACY_BUY_SOURCE}';
+        DELETE FROM holder_events;
+        DELETE FROM processed_signatures;
+        UPDATE holders SET
+          last_balance_raw = NULL,
+          last_balance_check_ts = NULL,
+          last_decrease_ts = NULL,
+          last_decrease_fraction = 0,
+          last_continuity_rule = NULL,
+          continuity_start_ts = NULL,
+          streak_rounds = 0,
+          twb_score = 0,
+          cumulative_buy_sol = 0,
+          cumulative_buy_sol_low_confidence = 0;
+    `);
+
+    // Legacy carry-over buys have no archived transaction to replay from
+    const carried = getDb().prepare('SELECT DISTINCT wallet FROM buys').all() as { wallet: string }[];
+    for (const { wallet } of carried) {
+        recomputeBuyTotals(wallet);
+    }
+}
+
+/**
+ * Apply a replayed transaction's classified events to running balances,
+ * through the same continuity rules as a balance refresh.
+ */
+function applyBalanceChanges(signature: string, ts: number, balances: Map<string, bigint>): void {
+    for (const event of getHolderEventsBySignature(signature)) {
+        const previous = balances.get(event.wallet) ?? BigInt(0);
+        const amount = BigInt(event.token_amount_raw);
+        let next = INCOMING_KINDS.includes(event.kind) ? previous + amount : previous - amount;
+
+        // History before the archive began is unknown
+        if (next < BigInt(0)) next = BigInt(0);
+
+        balances.set(event.wallet, next);
+        updateHolderBalance(event.wallet, next.toString(), ts, previous.toString());
+    }
+}
+
+/**
+ * Re-apply a reward round's streak and TWB update to holders eligible at its
+ * time. TWB comes from the balance snapshots carried over in the copy.
+ */
+function replayRound(round: RoundRow, decimals: number): void {
+    const config = getConfig();
+    const eligible = getEligibleHolders(
+        config.walletMinAgeDays,
+        config.minContinuitySeconds,
+        config.minCumulativeBuySol,
+        round.ts
+    );
+
+    for (const holder of eligible) {
+        const twb = computeTwb(holder.wallet, holder.continuity_start_ts ?? round.ts, round.ts, decimals);
+        updateStreakAndTwb(holder.wallet, twb);
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Diff Report
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DIFF_FIELDS: (keyof HolderRow)[] = [
+    'cumulative_buy_sol',
+    'continuity_start_ts',
+    'streak_rounds',
+    'twb_score',
+    'last_balance_raw',
+];
+
+function changedFields(before: HolderRow | undefined, after: HolderRow | undefined): string[] {
+    return DIFF_FIELDS
+        .filter(field => (before?.[field] ?? null) !== (after?.[field] ?? null))
+        .map(field => `${field}: ${formatValue(before?.[field])} → ${formatValue(after?.[field])}`);
+}
+
+function formatValue(value: string | number | null | undefined): string {
+    if (value === null || value === undefined) return '-';
+    if (typeof value === 'number' && !Number.isInteger(value)) return value.toFixed(4);
+    return String(value);
+}
+
+export function printRebuildReport(report: RebuildReport): void {
+    console.log('');
+    console.log('[REBUILD] ═══════════════════════════════════════════════════════');
+    console.log(`[REBUILD]   Transactions replayed: ${report.transactionsReplayed}`);
+    console.log(`[REBUILD]   Reward rounds replayed: ${report.roundsReplayed}`);
+    console.log(`[REBUILD]   Holders with changed state: ${report.holdersChanged}`);
+    console.log(`[REBUILD]   Eligible: ${report.eligibleBefore} → ${report.eligibleAfter}`);
+    console.log('[REBUILD] ═══════════════════════════════════════════════════════');
+
+    for (const [label, changes] of [['+ now eligible', report.gained], ['- no longer eligible', report.lost]] as const) {
+        if (changes.length === 0) continue;
+
+        console.log(`[REBUILD] ${label} (${changes.length}):`);
+        for (const change of changes) {
+            console.log(`[REBUILD]   ${change.wallet}`);
+            for (const line of changedFields(change.before, change.after)) {
+                console.log(`[REBUILD]       ${line}`);
+            }
+        }
+    }
+
+    console.log('');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Swap
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Replace the live database with the rebuilt copy. The live database is
+ * kept next to it as `<db>.pre-rebuild-<ts>`. Closes the database; the
+ * caller must not be holding the live database open elsewhere.
+ * Returns the path of the preserved old database.
+ */
+export function swapRebuiltDb(rebuildPath: string): string {
+    const config = getConfig();
+    const backupPath = `${config.dbPath}.pre-rebuild-${Math.floor(Date.now() / 1000)}`;
+
+    closeDb();
+    moveDbFiles(config.dbPath, backupPath);
+    moveDbFiles(rebuildPath, config.dbPath);
+
+    return backupPath;
+}
+
+const SQLITE_SUFFIXES = ['', '-wal', '-shm'];
+
+function moveDbFiles(from: string, to: string): void {
+    for (const suffix of SQLITE_SUFFIXES) {
+        if (fs.existsSync(from + suffix)) {
+            fs.renameSync(from + suffix, to + suffix);
+        }
+    }
+}
+
+function removeDbFiles(dbPath: string): void {
+    for (const suffix of SQLITE_SUFFIXES) {
+        if (fs.existsSync(dbPath + suffix)) {
+            fs.unlinkSync(dbPath + suffix);
+        }
+    }
+}
@@ -7,23 +7,46 @@ import {
 import {
     getAssociatedTokenAddress,
     createAssociatedTokenAccountInstruction,
-    createTransferInstruction,
+    createTransferCheckedInstruction,
+    createTransferCheckedWithFeeInstruction,
     getAccount,
 } from '@solana/spl-token';
 import { v4 as uuidv4 } from 'uuid';
 import { getConfig } from './config';
-import { insertRound } from './db';
-import { getTokenDecimals, rawToUi } from './token';
+import {
+    insertRound,
+    insertRoundEntries,
+    getDb,
+    getOpenRoundCommitment,
+    markCommitmentPaying,
+    updateCommitmentPayout,
+    completeRoundCommitment,
+    RoundEntryRow,
+} from './db';
+import {
+    getTokenDecimals,
+    getTokenProgramId,
+    getMintInfo,
+    grossUpForTransferFee,
+    isToken2022,
+    rawToUi,
+} from './token';
 import { getTreasuryTokenBalance, refreshAllBalances } from './balances';
 import { incrementalScan } from './scan';
+import { assignClusters } from './cluster';
 import {
     getEligibleHoldersWithWeights,
     selectWinners,
+    commitEligibleSet,
     createLotteryContext,
     updateEligibleHoldersStreakAndTwb,
+    EligibleHolder,
     LotteryContext,
 } from './scoring';
-import { writeRewardLog, appendHistoryLog } from './log';
+import { EligibilitySnapshot } from './lottery';
+import { computeEntriesRoot, RoundEntryLeaf } from './merkle';
+import { allocateRewards, DistributionMode } from './distribution';
+import { writeRewardLog, appendHistoryLog, writeRoundEntriesLog } from './log';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Reward Distribution Types
@@ -35,6 +58,8 @@ export interface RewardWinner {
     tokenBalanceUi: number;
     rewardAmountRaw: bigint;
     rewardAmountUi: number;
+    /** Transfer fee paid on top so the winner receives rewardAmountRaw (Token-2022) */
+    transferFeeRaw: bigint;
     ataCreated: boolean;
 }
 
@@ -43,12 +68,15 @@ export interface RewardRoundResult {
     timestamp: number;
     treasuryBalanceBefore: bigint;
     totalDistributed: bigint;
-    perWinnerAmount: bigint;
+    distributionMode: DistributionMode;
     winners: RewardWinner[];
     transactions: string[];
     success: boolean;
     error?: string;
     lotteryContext?: LotteryContext;  // NEW: For reproducibility
+    /** Merkle root over every entry in the draw (see merkle.ts) */
+    entriesRoot?: string;
+    entriesCount?: number;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -59,12 +87,12 @@ async function ensureAta(
     connection: Connection,
     wallet: PublicKey,
     mint: PublicKey,
-    payer: PublicKey
+    programId: PublicKey
 ): Promise<{ ata: PublicKey; created: boolean }> {
-    const ata = await getAssociatedTokenAddress(mint, wallet);
+    const ata = await getAssociatedTokenAddress(mint, wallet, false, programId);
 
     try {
-        await getAccount(connection, ata);
+        await getAccount(connection, ata, 'confirmed', programId);
         return { ata, created: false };
     } catch {
         // ATA doesn't exist, will need to create
@@ -72,26 +100,126 @@ async function ensureAta(
     }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Round Entries
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * One entry per eligible holder in the draw, winners marked with their
+ * reward: the rows stored in round_entries and the leaves of the round's
+ * Merkle root. Factors include the cluster policy's multiplier.
+ */
+function buildRoundEntries(
+    roundId: string,
+    eligible: EligibleHolder[],
+    winners: RewardWinner[]
+): { rows: RoundEntryRow[]; leaves: RoundEntryLeaf[] } {
+    const rewards = new Map(winners.map(w => [w.wallet, w.rewardAmountRaw]));
+    const rows: RoundEntryRow[] = [];
+    const leaves: RoundEntryLeaf[] = [];
+
+    for (const holder of eligible) {
+        const factors = {
+            ...holder.weightFactors,
+            cooldown: holder.cooldownFactor ?? 1,
+            cluster: holder.clusterFactor,
+        };
+        const rewardAmountRaw = (rewards.get(holder.wallet) ?? BigInt(0)).toString();
+        const won = rewards.has(holder.wallet);
+
+        rows.push({
+            round_id: roundId,
+            wallet: holder.wallet,
+            weight: holder.weight,
+            weight_factors_json: JSON.stringify(factors),
+            wallet_age_days: holder.walletAgeDays,
+            streak_rounds: holder.streakRounds,
+            twb_score: holder.twbScore,
+            token_balance_raw: holder.tokenBalanceRaw,
+            token_balance_ui: holder.tokenBalanceUi,
+            cluster_id: holder.clusterId,
+            won: won ? 1 : 0,
+            reward_amount_raw: rewardAmountRaw,
+        });
+        leaves.push({
+            wallet: holder.wallet,
+            weight: holder.weight,
+            factors,
+            tokenBalanceRaw: holder.tokenBalanceRaw,
+            won,
+            rewardAmountRaw,
+        });
+    }
+
+    return { rows, leaves };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Payout State
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * What a round pays, saved on its commitment before the first transfer is
+ * sent, with each batch signature added as it confirms.
+ */
+interface RoundPayout {
+    treasuryBalanceBefore: bigint;
+    distributeRaw: bigint;
+    transferFeesRaw: bigint;
+    winners: RewardWinner[];
+    transactions: string[];
+}
+
+function serializePayout(payout: RoundPayout): string {
+    return JSON.stringify(payout, (_key, value) => typeof value === 'bigint' ? value.toString() : value);
+}
+
+function parsePayout(json: string): RoundPayout {
+    type Stored<T> = { [K in keyof T]: T[K] extends bigint ? string : T[K] };
+    const raw = JSON.parse(json) as Stored<Omit<RoundPayout, 'winners'>> & { winners: Stored<RewardWinner>[] };
+    return {
+        treasuryBalanceBefore: BigInt(raw.treasuryBalanceBefore),
+        distributeRaw: BigInt(raw.distributeRaw),
+        transferFeesRaw: BigInt(raw.transferFeesRaw),
+        winners: raw.winners.map(w => ({
+            ...w,
+            rewardAmountRaw: BigInt(w.rewardAmountRaw),
+            transferFeeRaw: BigInt(w.transferFeeRaw),
+        })),
+        transactions: raw.transactions,
+    };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Reward Distribution
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
  * Execute a reward distribution round.
+ *
+ * The draw is commit-reveal: the eligible set is committed to a future slot
+ * before its blockhash exists. A round whose commitment is still open (the
+ * process failed or restarted after committing) is resumed with the same
+ * round id and snapshot rather than started afresh, so it cannot be
+ * re-rolled. A round that had started paying is finished from its saved
+ * payout without sending any transfer again.
  */
 export async function executeRewardRound(connection: Connection): Promise<RewardRoundResult> {
     const config = getConfig();
-    const roundId = uuidv4();
+    const openCommitment = getOpenRoundCommitment();
+    const roundId = openCommitment?.round_id ?? uuidv4();
     const timestamp = Math.floor(Date.now() / 1000);
 
-    console.log(`[REWARDS] Starting reward round ${roundId}`);
+    console.log(openCommitment
+        ? `[REWARDS] Resuming committed reward round ${roundId}`
+        : `[REWARDS] Starting reward round ${roundId}`);
 
     const result: RewardRoundResult = {
         roundId,
         timestamp,
         treasuryBalanceBefore: BigInt(0),
         totalDistributed: BigInt(0),
-        perWinnerAmount: BigInt(0),
+        distributionMode: config.distributionMode,
         winners: [],
         transactions: [],
         success: false,
@@ -103,116 +231,233 @@ export async function executeRewardRound(connection: Connection): Promise<Reward
         await incrementalScan(connection);
         await refreshAllBalances(connection);
 
-        // Step 2: Get token decimals
+        // Step 2: Get token decimals and program
         const decimals = await getTokenDecimals(connection);
+        const programId = await getTokenProgramId(connection);
+
+        let eligible: EligibleHolder[];
+        let lotteryContext: LotteryContext;
+        let totalFees: bigint;
+
+        if (openCommitment?.status === 'paying' && openCommitment.payout_json) {
+            // Transfers may already have landed: finish the round from its saved payout
+            const payout = parsePayout(openCommitment.payout_json);
+            const batches = Math.ceil(payout.winners.filter(w => w.rewardAmountRaw > BigInt(0)).length /
+                config.maxSendsPerTx);
+
+            console.warn(`[REWARDS] Round ${roundId} was already paying out; not sending transfers again ` +
+                `(${payout.transactions.length}/${batches} batches recorded as confirmed)`);
+            if (payout.transactions.length < batches) {
+                console.warn('[REWARDS] Check the treasury for batches sent but not recorded before paying any manually');
+            }
 
-        // Step 3: Get treasury balance
-        const treasuryBalance = await getTreasuryTokenBalance(connection);
-        result.treasuryBalanceBefore = treasuryBalance.raw;
+            eligible = JSON.parse(openCommitment.eligible_json) as EligibleHolder[];
+            lotteryContext = await createLotteryContext(connection, openCommitment);
+            totalFees = payout.transferFeesRaw;
 
-        console.log(`[REWARDS] Treasury token balance: ${treasuryBalance.ui}`);
+            result.lotteryContext = lotteryContext;
+            result.treasuryBalanceBefore = payout.treasuryBalanceBefore;
+            result.winners = payout.winners;
+            result.transactions = payout.transactions;
+            result.totalDistributed = payout.transactions.length > 0 ? payout.distributeRaw : BigInt(0);
+            result.success = payout.transactions.length > 0;
+        } else {
+            // Step 3: Get treasury balance
+            const treasuryBalance = await getTreasuryTokenBalance(connection);
+            result.treasuryBalanceBefore = treasuryBalance.raw;
 
-        if (treasuryBalance.raw === BigInt(0)) {
-            console.log('[REWARDS] Treasury has no tokens, skipping round');
-            result.error = 'Treasury has no tokens';
-            return result;
-        }
+            console.log(`[REWARDS] Treasury token balance: ${treasuryBalance.ui}`);
 
-        // Step 4: Calculate distribution amount with safety cap applied
-        // config.rewardTokenPercentBps is already capped by min(REWARD_TOKEN_PERCENT_BPS, MAX_REWARD_TOKEN_PERCENT_PER_ROUND)
-        const distributePercent = config.rewardTokenPercentBps / 10000;
-        const distributeRaw = (treasuryBalance.raw * BigInt(config.rewardTokenPercentBps)) / BigInt(10000);
+            if (treasuryBalance.raw === BigInt(0)) {
+                console.log('[REWARDS] Treasury has no tokens, skipping round');
+                result.error = 'Treasury has no tokens';
+                return result;
+            }
 
-        console.log(`[REWARDS] Distributing ${distributePercent * 100}% = ${rawToUi(distributeRaw, decimals)} tokens`);
-        console.log(`[REWARDS] (Safety cap: ${config.maxRewardTokenPercentPerRound / 100}% max)`);
+            // Step 4: Calculate distribution amount with safety cap applied
+            // config.rewardTokenPercentBps is already capped by min(REWARD_TOKEN_PERCENT_BPS, MAX_REWARD_TOKEN_PERCENT_PER_ROUND)
+            const distributePercent = config.rewardTokenPercentBps / 10000;
+            const distributeRaw = (treasuryBalance.raw * BigInt(config.rewardTokenPercentBps)) / BigInt(10000);
 
-        // Step 5: Get eligible holders with weights
-        const eligible = getEligibleHoldersWithWeights(decimals);
+            console.log(`[REWARDS] Distributing ${distributePercent * 100}% = ${rawToUi(distributeRaw, decimals)} tokens`);
+            console.log(`[REWARDS] (Safety cap: ${config.maxRewardTokenPercentPerRound / 100}% max)`);
 
-        if (eligible.length === 0) {
-            console.log('[REWARDS] No eligible holders found');
-            result.error = 'No eligible holders';
-            return result;
-        }
+            // Step 5: Get eligible holders with weights (funding clusters first)
+            // and commit to them, or resume the open commitment
+            let commitment = openCommitment;
 
-        // Step 6: Create lottery context for deterministic selection
-        const lotteryContext = await createLotteryContext(connection, roundId, timestamp);
-        result.lotteryContext = lotteryContext;
+            if (commitment) {
+                eligible = JSON.parse(commitment.eligible_json) as EligibleHolder[];
+            } else {
+                assignClusters();
+                eligible = getEligibleHoldersWithWeights(decimals);
 
-        // Step 7: Select winners using deterministic lottery
-        const winners = selectWinners(eligible, config.winnersPerRound, lotteryContext);
+                if (eligible.length === 0) {
+                    console.log('[REWARDS] No eligible holders found');
+                    result.error = 'No eligible holders';
+                    return result;
+                }
 
-        if (winners.length === 0) {
-            console.log('[REWARDS] No winners selected');
-            result.error = 'No winners selected';
-            return result;
-        }
+                commitment = await commitEligibleSet(connection, roundId, eligible);
+            }
+            const snapshot = JSON.parse(commitment.snapshot_json) as EligibilitySnapshot;
 
-        // Step 8: Calculate per-winner amount
-        const perWinnerRaw = distributeRaw / BigInt(winners.length);
-        result.perWinnerAmount = perWinnerRaw;
+            // Step 6: Reveal the seed once the target slot is finalized
+            lotteryContext = await createLotteryContext(connection, commitment);
+            result.lotteryContext = lotteryContext;
 
-        console.log(`[REWARDS] ${winners.length} winners, ${rawToUi(perWinnerRaw, decimals)} tokens each`);
+            // Step 7: Select winners using deterministic lottery
+            const winners = selectWinners(eligible, snapshot.winnersCount, lotteryContext);
 
-        // Step 9: Prepare winner data
-        for (const winner of winners) {
-            const { ata, created } = await ensureAta(
-                connection,
-                new PublicKey(winner.wallet),
-                config.tokenMint,
-                config.treasuryPubkey
-            );
+            if (winners.length === 0) {
+                console.log('[REWARDS] No winners selected');
+                completeRoundCommitment(roundId);
+                result.error = 'No winners selected';
+                return result;
+            }
 
-            result.winners.push({
-                wallet: winner.wallet,
-                weight: winner.weight,
-                tokenBalanceUi: winner.tokenBalanceUi,
-                rewardAmountRaw: perWinnerRaw,
-                rewardAmountUi: rawToUi(perWinnerRaw, decimals),
-                ataCreated: created,
+            // Step 8: Divide the tokens among winners (exact; amounts vary by mode)
+            const amounts = allocateRewards(distributeRaw, winners, {
+                mode: config.distributionMode,
+                tiers: config.distributionTiers,
+                basePercent: config.distributionBasePercent,
             });
-        }
+            // Tiered mode can leave part of the pot in the treasury
+            const allocatedRaw = amounts.reduce((sum, amount) => sum + amount, BigInt(0));
 
-        // Step 10: Execute transfers
-        if (config.dryRun) {
-            console.log('[REWARDS] DRY RUN - skipping actual transfers');
-            result.transactions = ['dry-run-tx-1', 'dry-run-tx-2'];
-            result.totalDistributed = perWinnerRaw * BigInt(winners.length);
-            result.success = true;
-        } else {
-            const txSignatures = await executeTransfers(
-                connection,
-                result.winners,
-                perWinnerRaw,
-                decimals
-            );
+            console.log(`[REWARDS] ${winners.length} winners, '${config.distributionMode}' distribution:`);
+            winners.forEach((winner, i) => {
+                console.log(`[REWARDS]   ${i + 1}. ${winner.wallet}: ${rawToUi(amounts[i], decimals)} tokens`);
+            });
+            if (allocatedRaw < distributeRaw) {
+                console.log(`[REWARDS] ${rawToUi(distributeRaw - allocatedRaw, decimals)} tokens of unfilled tiers stay in the treasury`);
+            }
+
+            // Token-2022 transfer fees are paid on top so winners receive the full amount
+            const { epoch } = await connection.getEpochInfo('confirmed');
+            const mint = await getMintInfo(connection);
+            const transfers = amounts.map(amount => grossUpForTransferFee(mint, BigInt(epoch), amount));
+            totalFees = transfers.reduce((sum, t) => sum + t.fee, BigInt(0));
+
+            if (totalFees > BigInt(0)) {
+                console.log(`[REWARDS] Transfer fees: ${rawToUi(totalFees, decimals)} tokens in total`);
+
+                if (allocatedRaw + totalFees > treasuryBalance.raw) {
+                    throw new Error('Treasury balance cannot cover rewards plus transfer fees');
+                }
+            }
+
+            // Step 9: Prepare winner data
+            for (let i = 0; i < winners.length; i++) {
+                const winner = winners[i];
+                const { created } = await ensureAta(
+                    connection,
+                    new PublicKey(winner.wallet),
+                    config.tokenMint,
+                    programId
+                );
+
+                result.winners.push({
+                    wallet: winner.wallet,
+                    weight: winner.weight,
+                    tokenBalanceUi: winner.tokenBalanceUi,
+                    rewardAmountRaw: amounts[i],
+                    rewardAmountUi: rawToUi(amounts[i], decimals),
+                    transferFeeRaw: transfers[i].fee,
+                    ataCreated: created,
+                });
+            }
+
+            // Step 10: Execute transfers
+            if (config.dryRun) {
+                console.log('[REWARDS] DRY RUN - skipping actual transfers');
+                result.transactions = ['dry-run-tx-1', 'dry-run-tx-2'];
+                result.totalDistributed = allocatedRaw;
+                result.success = true;
+            } else {
+                // Saved before sending, so a crash mid-payout cannot pay these winners twice
+                const payout: RoundPayout = {
+                    treasuryBalanceBefore: treasuryBalance.raw,
+                    distributeRaw: allocatedRaw,
+                    transferFeesRaw: totalFees,
+                    winners: result.winners,
+                    transactions: [],
+                };
+                markCommitmentPaying(roundId, serializePayout(payout));
+
+                const txSignatures = await executeTransfers(
+                    connection,
+                    result.winners,
+                    decimals,
+                    programId,
+                    signature => {
+                        payout.transactions.push(signature);
+                        updateCommitmentPayout(roundId, serializePayout(payout));
+                    }
+                );
 
-            result.transactions = txSignatures;
-            result.totalDistributed = perWinnerRaw * BigInt(txSignatures.length > 0 ? winners.length : 0);
-            result.success = txSignatures.length > 0;
+                result.transactions = txSignatures;
+                result.totalDistributed = txSignatures.length > 0 ? allocatedRaw : BigInt(0);
+                result.success = txSignatures.length > 0;
+            }
         }
 
-        // Step 11: Update streak and TWB for all eligible holders
-        updateEligibleHoldersStreakAndTwb(eligible, config.rewardIntervalSeconds);
+        // Steps 11-13 and completing the commitment commit together, so a
+        // resumed round never counts streaks twice
+        const entries = buildRoundEntries(roundId, eligible, result.winners);
+        const entriesRoot = computeEntriesRoot(entries.leaves);
+        result.entriesRoot = entriesRoot;
+        result.entriesCount = entries.leaves.length;
+
+        getDb().transaction(() => {
+            // Step 11: Update streak and TWB for all eligible holders
+            updateEligibleHoldersStreakAndTwb(eligible);
+
+            // Step 12: Store every entry of the draw and its Merkle root
+            insertRoundEntries(entries.rows);
+
+            // Step 13: Log the round (include lottery context for reproducibility)
+            insertRound({
+                round_id: roundId,
+                type: 'reward',
+                ts: timestamp,
+                txs_json: JSON.stringify(result.transactions),
+                meta_json: JSON.stringify({
+                    winnersCount: result.winners.length,
+                    distributionMode: config.distributionMode,
+                    distributionTiers: config.distributionMode === 'tiered' ? config.distributionTiers : undefined,
+                    distributionBasePercent: config.distributionMode === 'base_bonus'
+                        ? config.distributionBasePercent
+                        : undefined,
+                    totalDistributedUi: rawToUi(result.totalDistributed, decimals),
+                    lotterySeed: lotteryContext.seed,
+                    lotteryCommitment: lotteryContext.seedInputs.commitment,
+                    lotteryTargetSlot: lotteryContext.seedInputs.targetSlot,
+                    lotteryRevealSlot: lotteryContext.seedInputs.revealSlot,
+                    lotteryBlockhash: lotteryContext.seedInputs.blockhash,
+                    entriesRoot: result.entriesRoot,
+                    entriesCount: result.entriesCount,
+                    tokenProgram: programId.toBase58(),
+                    transferFeesRaw: totalFees.toString(),
+                    weightStrategy: config.weightStrategy,
+                    weightParams: config.weightParams,
+                    clusterMode: config.clusterMode,
+                    clusterMaxHops: config.clusterMaxHops,
+                    cooldownMode: config.cooldownMode,
+                    cooldownRounds: config.cooldownRounds,
+                    cooldownDecayFactor: config.cooldownDecayFactor,
+                    rewardPercentBps: config.rewardTokenPercentBps,
+                    maxRewardPercentBps: config.maxRewardTokenPercentPerRound,
+                }),
+            });
 
-        // Step 12: Log the round (include lottery context for reproducibility)
-        insertRound({
-            round_id: roundId,
-            type: 'reward',
-            ts: timestamp,
-            txs_json: JSON.stringify(result.transactions),
-            meta_json: JSON.stringify({
-                winnersCount: result.winners.length,
-                perWinnerUi: rawToUi(perWinnerRaw, decimals),
-                totalDistributedUi: rawToUi(result.totalDistributed, decimals),
-                lotterySeed: lotteryContext.seed,
-                lotteryBlockhash: lotteryContext.seedInputs.blockhash,
-                rewardPercentBps: config.rewardTokenPercentBps,
-                maxRewardPercentBps: config.maxRewardTokenPercentPerRound,
-            }),
-        });
+            completeRoundCommitment(roundId);
+        })();
+
+        console.log(`[REWARDS] Stored ${entries.rows.length} round entries (root ${entriesRoot})`);
 
-        // Step 13: Write transparency logs
+        // Step 14: Write transparency logs
+        writeRoundEntriesLog(roundId, entriesRoot, entries.leaves);
         writeRewardLog(result);
         appendHistoryLog('reward', result);
 
@@ -228,21 +473,28 @@ export async function executeRewardRound(connection: Connection): Promise<Reward
 }
 
 /**
- * Execute batched token transfers to winners.
+ * Execute batched token transfers to winners. Each winner is sent its own
+ * reward plus the transfer fee grossed up for it; winners with nothing to
+ * receive are skipped. `onConfirmed` is called with each batch signature as
+ * soon as it confirms.
  */
 async function executeTransfers(
     connection: Connection,
-    winners: RewardWinner[],
-    amountRaw: bigint,
-    decimals: number
+    allWinners: RewardWinner[],
+    decimals: number,
+    programId: PublicKey,
+    onConfirmed: (signature: string) => void
 ): Promise<string[]> {
     const config = getConfig();
     const signatures: string[] = [];
+    const winners = allWinners.filter(w => w.rewardAmountRaw > BigInt(0));
 
     // Get treasury ATA
     const treasuryAta = await getAssociatedTokenAddress(
         config.tokenMint,
-        config.treasuryPubkey
+        config.treasuryPubkey,
+        false,
+        programId
     );
 
     // Batch winners
@@ -253,7 +505,7 @@ async function executeTransfers(
 
         for (const winner of batch) {
             const winnerPubkey = new PublicKey(winner.wallet);
-            const winnerAta = await getAssociatedTokenAddress(config.tokenMint, winnerPubkey);
+            const winnerAta = await getAssociatedTokenAddress(config.tokenMint, winnerPubkey, false, programId);
 
             // Create ATA if needed
             if (winner.ataCreated) {
@@ -262,19 +514,37 @@ async function executeTransfers(
                         config.treasuryPubkey, // payer
                         winnerAta,
                         winnerPubkey,
-                        config.tokenMint
+                        config.tokenMint,
+                        programId
                     )
                 );
             }
 
-            // Transfer tokens
+            // Transfer tokens (the fee variant asserts the fee we grossed up for)
+            const grossAmount = winner.rewardAmountRaw + winner.transferFeeRaw;
             transaction.add(
-                createTransferInstruction(
-                    treasuryAta,
-                    winnerAta,
-                    config.treasuryPubkey,
-                    amountRaw
-                )
+                isToken2022(programId) && winner.transferFeeRaw > BigInt(0)
+                    ? createTransferCheckedWithFeeInstruction(
+                        treasuryAta,
+                        config.tokenMint,
+                        winnerAta,
+                        config.treasuryPubkey,
+                        grossAmount,
+                        decimals,
+                        winner.transferFeeRaw,
+                        [],
+                        programId
+                    )
+                    : createTransferCheckedInstruction(
+                        treasuryAta,
+                        config.tokenMint,
+                        winnerAta,
+                        config.treasuryPubkey,
+                        grossAmount,
+                        decimals,
+                        [],
+                        programId
+                    )
             );
         }
 
@@ -287,6 +557,7 @@ async function executeTransfers(
             );
 
             signatures.push(signature);
+            onConfirmed(signature);
             console.log(`[REWARDS] Batch ${Math.floor(i / config.maxSendsPerTx) + 1} confirmed: ${signature}`);
 
         } catch (err) {
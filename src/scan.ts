@@ -1,88 +1,21 @@
-import { Connection, PublicKey } from '@solana/web3.js';
-import fetch from 'cross-fetch';
+import { Connection } from '@solana/web3.js';
 import { getConfig } from './config';
-import { getHolder, upsertHolder, getScanState, setScanState, incrementBuySol } from './db';
-import { computeWalletAge } from './age';
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Helius Enhanced API Types
-// ─────────────────────────────────────────────────────────────────────────────
-
-interface HeliusTokenTransfer {
-    fromUserAccount: string;
-    toUserAccount: string;
-    fromTokenAccount: string;
-    toTokenAccount: string;
-    tokenAmount: number;
-    mint: string;
-}
-
-interface HeliusNativeTransfer {
-    fromUserAccount: string;
-    toUserAccount: string;
-    amount: number; // lamports
-}
-
-interface HeliusSwapEvent {
-    nativeInput?: {
-        account: string;
-        amount: string;
-    };
-    nativeOutput?: {
-        account: string;
-        amount: string;
-    };
-    tokenInputs?: Array<{
-        userAccount: string;
-        tokenAccount: string;
-        mint: string;
-        rawTokenAmount: {
-            tokenAmount: string;
-            decimals: number;
-        };
-    }>;
-    tokenOutputs?: Array<{
-        userAccount: string;
-        tokenAccount: string;
-        mint: string;
-        rawTokenAmount: {
-            tokenAmount: string;
-            decimals: number;
-        };
-    }>;
-}
-
-interface HeliusEnrichedTransaction {
-    signature: string;
-    timestamp: number;
-    type: string;
-    source: string;
-    fee: number;
-    feePayer: string;
-    tokenTransfers: HeliusTokenTransfer[];
-    nativeTransfers: HeliusNativeTransfer[];
-    events?: {
-        swap?: HeliusSwapEvent;
-    };
-    accountData: Array<{
-        account: string;
-        nativeBalanceChange: number;
-        tokenBalanceChanges: Array<{
-            userAccount: string;
-            tokenAccount: string;
-            mint: string;
-            rawTokenAmount: {
-                tokenAmount: string;
-                decimals: number;
-            };
-        }>;
-    }>;
-}
-
-interface HeliusParseResponse {
-    result: HeliusEnrichedTransaction[];
-    paginationToken?: string;
-}
+import {
+    getHolder,
+    upsertHolder,
+    getScanState,
+    setScanState,
+    recordBuy,
+    insertHolderEvent,
+    isSignatureProcessed,
+    markSignatureProcessed,
+    storeTransaction,
+    recordTokenAccount,
+} from './db';
+import { enqueueWalletAges, enqueueFundingLookups } from './jobs';
+import { createTransactionSource, HeliusEnrichedTransaction, TransactionSource } from './sources';
+import { decodePumpTrades, DecodedTrade } from './pumpfun';
+import { classifyTransaction } from './activity';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Buy Detection Result
@@ -98,59 +31,84 @@ export interface DetectedBuy {
     source: string;
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Helius API Client
-// ─────────────────────────────────────────────────────────────────────────────
-
-async function fetchHeliusParsedTransactions(
-    address: string,
-    limit: number,
-    paginationToken?: string
-): Promise<HeliusParseResponse> {
-    const config = getConfig();
-
-    // Use explicit HELIUS_API_KEY from config
-    const apiKey = config.heliusApiKey;
-
-    const url = `https://api.helius.xyz/v0/addresses/${address}/transactions`;
-    const params = new URLSearchParams({
-        'api-key': apiKey,
-        limit: limit.toString(),
-    });
-
-    if (paginationToken) {
-        params.set('before', paginationToken);
-    }
-
-    const response = await fetch(`${url}?${params.toString()}`);
-
-    if (!response.ok) {
-        throw new Error(`Helius API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json() as HeliusEnrichedTransaction[];
-
-    // Helius returns array directly, pagination token is last signature
-    const lastSig = data.length > 0 ? data[data.length - 1].signature : undefined;
-
-    return {
-        result: data,
-        paginationToken: data.length === limit ? lastSig : undefined,
-    };
+export interface DetectedSell {
+    wallet: string;
+    solReceived: number;
+    tokenSold: number;
+    signature: string;
+    timestamp: number;
+    source: string;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Buy Detection Logic
 // ─────────────────────────────────────────────────────────────────────────────
 
-function detectBuysFromTransaction(
+function tradeSource(trade: DecodedTrade): string {
+    return trade.program === 'pump' ? 'PUMP_FUN' : 'PUMP_AMM';
+}
+
+export function detectBuysFromTransaction(
     tx: HeliusEnrichedTransaction,
     tokenMint: string
 ): DetectedBuy[] {
-    const buys: DetectedBuy[] = [];
+    let buys: DetectedBuy[] = [];
+
+    // Method 0: Native pump.fun / PumpSwap decoding
+    const instructionBuys = new Map<string, { boundLamports: bigint; tokenReceived: number; source: string }>();
+
+    for (const trade of decodePumpTrades(tx, tokenMint)) {
+        if (trade.direction !== 'buy') continue;
+
+        const tokenReceived = Number(trade.tokenAmountRaw) / Math.pow(10, trade.tokenDecimals);
+
+        if (trade.origin === 'event') {
+            buys.push({
+                wallet: trade.user,
+                solSpent: Number(trade.solLamports) / 1e9,
+                tokenReceived,
+                signature: tx.signature,
+                timestamp: tx.timestamp,
+                confidence: 'high',
+                source: tradeSource(trade),
+            });
+            continue;
+        }
+
+        const pending = instructionBuys.get(trade.user);
+        instructionBuys.set(trade.user, {
+            boundLamports: (pending?.boundLamports ?? BigInt(0)) + trade.solLamports,
+            tokenReceived: (pending?.tokenReceived ?? 0) + tokenReceived,
+            source: pending?.source ?? tradeSource(trade),
+        });
+    }
+
+    // The instruction only carries the slippage bound: price the buy from the
+    // user's SOL delta, capped by that bound so rent and fees paid in the same
+    // transaction never count. The program instruction itself proves the
+    // buy, so it counts toward eligibility like an event.
+    for (const [wallet, pending] of instructionBuys) {
+        const account = tx.accountData.find(a => a.account === wallet);
+        if (!account || account.nativeBalanceChange >= 0) continue;
+
+        const spentLamports = BigInt(-account.nativeBalanceChange);
+        buys.push({
+            wallet,
+            solSpent: Number(spentLamports < pending.boundLamports ? spentLamports : pending.boundLamports) / 1e9,
+            tokenReceived: pending.tokenReceived,
+            signature: tx.signature,
+            timestamp: tx.timestamp,
+            confidence: 'high',
+            source: pending.source,
+        });
+    }
+
+    // The ledger keeps one row per (signature, wallet): a wallet buying in
+    // several legs of one transaction (routers) is recorded as one buy
+    buys = mergeBuysByWallet(buys);
 
     // Method 1: High confidence - Helius parsed swap event
-    if (tx.events?.swap) {
+    if (buys.length === 0 && tx.events?.swap) {
         const swap = tx.events.swap;
 
         // Check for SOL input + token output (buy)
@@ -236,6 +194,93 @@ function detectBuysFromTransaction(
     return buys;
 }
 
+function mergeBuysByWallet(buys: DetectedBuy[]): DetectedBuy[] {
+    const byWallet = new Map<string, DetectedBuy>();
+
+    for (const buy of buys) {
+        const merged = byWallet.get(buy.wallet);
+        if (merged) {
+            // Both are lamport / raw-unit amounts scaled down: round away float drift
+            merged.solSpent = Math.round((merged.solSpent + buy.solSpent) * 1e9) / 1e9;
+            merged.tokenReceived = +(merged.tokenReceived + buy.tokenReceived).toFixed(12);
+        } else {
+            byWallet.set(buy.wallet, { ...buy });
+        }
+    }
+
+    return Array.from(byWallet.values());
+}
+
+/**
+ * Persist a detected buy to the signature-keyed ledger.
+ * Returns false if this buy was already recorded.
+ */
+function recordDetectedBuy(buy: DetectedBuy): boolean {
+    return recordBuy({
+        signature: buy.signature,
+        wallet: buy.wallet,
+        sol_spent: buy.solSpent,
+        token_received: buy.tokenReceived,
+        confidence: buy.confidence,
+        source: buy.source,
+        ts: buy.timestamp,
+    });
+}
+
+/**
+ * Detect sells decoded from pump.fun / PumpSwap program data, or from a
+ * Helius parsed swap event for other venues.
+ */
+export function detectSellsFromTransaction(
+    tx: HeliusEnrichedTransaction,
+    tokenMint: string
+): DetectedSell[] {
+    const sells: DetectedSell[] = [];
+
+    for (const trade of decodePumpTrades(tx, tokenMint)) {
+        if (trade.direction !== 'sell') continue;
+
+        // Instruction fallback only has the minimum output, use the balance delta instead
+        let solReceived = Number(trade.solLamports) / 1e9;
+        if (trade.origin === 'instruction') {
+            const account = tx.accountData.find(a => a.account === trade.user);
+            solReceived = account && account.nativeBalanceChange > 0 ? account.nativeBalanceChange / 1e9 : 0;
+        }
+
+        sells.push({
+            wallet: trade.user,
+            solReceived,
+            tokenSold: Number(trade.tokenAmountRaw) / Math.pow(10, trade.tokenDecimals),
+            signature: tx.signature,
+            timestamp: tx.timestamp,
+            source: tradeSource(trade),
+        });
+    }
+
+    // Helius parsed swap event: token input + SOL output (Jupiter, Raydium, Meteora...)
+    if (sells.length === 0 && tx.events?.swap) {
+        const swap = tx.events.swap;
+
+        if (swap.nativeOutput && swap.tokenInputs) {
+            for (const tokenIn of swap.tokenInputs) {
+                if (tokenIn.mint === tokenMint) {
+                    sells.push({
+                        wallet: tokenIn.userAccount,
+                        solReceived: parseInt(swap.nativeOutput.amount) / 1e9,
+                        tokenSold: parseInt(tokenIn.rawTokenAmount.tokenAmount) /
+                            Math.pow(10, tokenIn.rawTokenAmount.decimals),
+                        signature: tx.signature,
+                        timestamp: tx.timestamp,
+                        source: tx.source || 'swap',
+                    });
+                }
+            }
+        }
+    }
+
+    return sells;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Holder Discovery
 // ─────────────────────────────────────────────────────────────────────────────
@@ -271,163 +316,466 @@ function extractHoldersFromTransaction(
 // ─────────────────────────────────────────────────────────────────────────────
 
 const SCAN_STATE_KEY = 'last_processed_signature';
+const SCAN_STATE_CURSOR_TS_KEY = 'last_processed_signature_ts';
 const SCAN_STATE_TIMESTAMP_KEY = 'last_processed_timestamp';
+const SCAN_STATE_BACKFILL_KEY = 'backfill';
+/** Block time of the newest mint transaction the last head scan saw */
+const SCAN_STATE_HEAD_TS_KEY = 'chain_head_ts';
 
 export interface ScanResult {
     newHolders: string[];
     buysDetected: DetectedBuy[];
+    sellsDetected: DetectedSell[];
     transactionsProcessed: number;
+    /** Signatures applied by this call (already-processed ones are not included) */
+    processedSignatures: string[];
     lastSignature: string | null;
 }
 
 /**
- * Scan for new token activity using Helius parsed transactions.
+ * An unfinished range of history between a page limit and the old cursor.
+ * Everything newer than `before` (up to `head`) has been processed; everything
+ * from `before` down to `until` has not.
  */
-export async function scanTokenActivity(
-    connection: Connection,
-    limit: number,
-    isBootstrap: boolean = false
-): Promise<ScanResult> {
-    const config = getConfig();
-    const tokenMintStr = config.tokenMint.toBase58();
+export interface BackfillState {
+    head: string;
+    headTs: number;
+    before: string;
+    beforeTs: number;
+    until: string | null;
+    untilTs: number | null;
+    processed: number;
+}
 
-    // Get last processed signature for incremental scanning
-    const lastProcessedSig = isBootstrap ? null : getScanState(SCAN_STATE_KEY);
+interface RangeProgress {
+    newest: { signature: string; timestamp: number } | null;
+    oldest: { signature: string; timestamp: number } | null;
+    fetched: number;
+    reachedStop: boolean;
+    exhausted: boolean;
+    failed: boolean;
+}
 
-    const result: ScanResult = {
-        newHolders: [],
-        buysDetected: [],
-        transactionsProcessed: 0,
-        lastSignature: null,
-    };
+function getBackfillState(): BackfillState | null {
+    const raw = getScanState(SCAN_STATE_BACKFILL_KEY);
+    if (!raw) return null;
 
-    const seenHolders = new Set<string>();
-    let paginationToken: string | undefined = undefined;
-    let totalFetched = 0;
+    try {
+        return JSON.parse(raw) as BackfillState;
+    } catch {
+        return null;
+    }
+}
 
-    // FIX: Flag to track if we reached the last processed signature
-    let reachedLastProcessed = false;
+function setBackfillState(state: BackfillState | null): void {
+    setScanState(SCAN_STATE_BACKFILL_KEY, state ? JSON.stringify(state) : '');
+}
+
+function setCursor(signature: string, timestamp: number): void {
+    setScanState(SCAN_STATE_KEY, signature);
+    setScanState(SCAN_STATE_CURSOR_TS_KEY, timestamp.toString());
+}
+
+/**
+ * Page backwards through the mint's history starting at `before`, processing
+ * each transaction, until `stopAt` is reached, history runs out, or `budget`
+ * signatures have been fetched. With `stopOnReach` false, `stopAt` is only
+ * noted in progress. Errors end the range early but keep progress.
+ */
+async function scanRange(
+    source: TransactionSource,
+    tokenMintStr: string,
+    before: string | undefined,
+    stopAt: string | null,
+    budget: number,
+    result: ScanResult,
+    seenHolders: Set<string>,
+    stopOnReach: boolean = true
+): Promise<RangeProgress> {
+    const progress: RangeProgress = {
+        newest: null,
+        oldest: null,
+        fetched: 0,
+        reachedStop: false,
+        exhausted: false,
+        failed: false,
+    };
+
+    let paginationToken = before;
 
     try {
-        while (totalFetched < limit) {
-            const batchSize = Math.min(100, limit - totalFetched);
-            const response = await fetchHeliusParsedTransactions(
+        while (progress.fetched < budget) {
+            const batchSize = Math.min(100, budget - progress.fetched);
+            const response = await source.fetchTransactions(
                 tokenMintStr,
                 batchSize,
                 paginationToken
             );
 
-            if (response.result.length === 0) {
-                break;
-            }
-
-            for (const tx of response.result) {
+            for (const tx of response.transactions) {
                 // Stop if we've reached previously processed transactions
-                if (lastProcessedSig && tx.signature === lastProcessedSig) {
-                    console.log(`[SCAN] Reached last processed signature, stopping`);
-                    // FIX: Set flag and break inner loop
-                    reachedLastProcessed = true;
-                    break;
-                }
-
-                // Track first signature for state
-                if (!result.lastSignature) {
-                    result.lastSignature = tx.signature;
-                }
-
-                // Extract holders
-                const txHolders = extractHoldersFromTransaction(tx, tokenMintStr);
-                for (const holder of txHolders) {
-                    if (!seenHolders.has(holder)) {
-                        seenHolders.add(holder);
-
-                        // Check if this is a new holder (not in DB)
-                        const existing = getHolder(holder);
-                        if (!existing) {
-                            result.newHolders.push(holder);
-                            upsertHolder(holder, {
-                                last_seen_ts: tx.timestamp,
-                            });
-                        }
+                if (stopAt && tx.signature === stopAt) {
+                    progress.reachedStop = true;
+                    if (stopOnReach) {
+                        console.log(`[SCAN] Reached last processed signature, stopping`);
+                        break;
                     }
                 }
 
-                // Detect buys
-                const buys = detectBuysFromTransaction(tx, tokenMintStr);
-                for (const buy of buys) {
-                    result.buysDetected.push(buy);
-
-                    // Record buy in database
-                    const isHighConfidence = buy.confidence === 'high';
-                    incrementBuySol(buy.wallet, buy.solSpent, isHighConfidence);
-                }
+                processTransaction(tx, tokenMintStr, result, seenHolders, source.name);
 
-                result.transactionsProcessed++;
+                const point = { signature: tx.signature, timestamp: tx.timestamp };
+                if (!progress.newest) progress.newest = point;
+                progress.oldest = point;
             }
 
-            // FIX: Break outer loop if we reached last processed signature
-            if (reachedLastProcessed) {
+            if (progress.reachedStop && stopOnReach) {
                 break;
             }
 
-            totalFetched += response.result.length;
+            progress.fetched += batchSize;
             paginationToken = response.paginationToken;
 
             if (!paginationToken) {
+                progress.exhausted = true;
                 break;
             }
 
+            // Resume from the page boundary, which may be a skipped failed tx
+            progress.oldest = { signature: paginationToken, timestamp: progress.oldest?.timestamp ?? 0 };
+
             // Rate limiting
             await new Promise(resolve => setTimeout(resolve, 200));
         }
+    } catch (err) {
+        console.error('[SCAN] Error scanning token activity:', err);
+        progress.failed = true;
+    }
+
+    return progress;
+}
 
-        // Save scan state
-        if (result.lastSignature) {
-            setScanState(SCAN_STATE_KEY, result.lastSignature);
-            setScanState(SCAN_STATE_TIMESTAMP_KEY, Math.floor(Date.now() / 1000).toString());
+/**
+ * Apply a single transaction: discover holders and record buys.
+ * Transactions already applied by any ingestion path are skipped.
+ */
+function processTransaction(
+    tx: HeliusEnrichedTransaction,
+    tokenMintStr: string,
+    result: ScanResult,
+    seenHolders: Set<string>,
+    via: string
+): void {
+    // Track first signature for state
+    if (!result.lastSignature) {
+        result.lastSignature = tx.signature;
+    }
+
+    if (isSignatureProcessed(tx.signature)) {
+        return;
+    }
+
+    // Extract holders
+    const txHolders = extractHoldersFromTransaction(tx, tokenMintStr);
+    for (const holder of txHolders) {
+        if (!seenHolders.has(holder)) {
+            seenHolders.add(holder);
+
+            // Check if this is a new holder (not in DB)
+            const existing = getHolder(holder);
+            if (!existing) {
+                result.newHolders.push(holder);
+                upsertHolder(holder, {
+                    last_seen_ts: tx.timestamp,
+                });
+            }
         }
+    }
 
-        console.log(`[SCAN] Processed ${result.transactionsProcessed} transactions, ` +
-            `${result.newHolders.length} new holders, ${result.buysDetected.length} buys detected`);
+    // Index token accounts so balance refreshes see non-ATA accounts too
+    for (const account of tx.accountData) {
+        for (const change of account.tokenBalanceChanges) {
+            if (change.mint === tokenMintStr && change.tokenAccount && change.userAccount) {
+                recordTokenAccount(change.tokenAccount, change.userAccount);
+            }
+        }
+    }
 
-        // Compute ages for new holders (in background, don't block)
-        if (result.newHolders.length > 0) {
-            computeAgesInBackground(connection, result.newHolders);
+    // Detect buys
+    const buys = detectBuysFromTransaction(tx, tokenMintStr);
+    for (const buy of buys) {
+        // Record buy in the ledger (no-op if already seen)
+        if (recordDetectedBuy(buy)) {
+            result.buysDetected.push(buy);
         }
+    }
 
-    } catch (err) {
-        console.error('[SCAN] Error scanning token activity:', err);
+    // Detect sells
+    const sells = detectSellsFromTransaction(tx, tokenMintStr);
+    result.sellsDetected.push(...sells);
+
+    // Classify per-wallet activity for the timeline
+    const events = classifyTransaction(tx, tokenMintStr, {
+        buyers: new Set(buys.map(b => b.wallet)),
+        sellers: new Set(sells.map(s => s.wallet)),
+        treasury: getConfig().treasuryPubkey.toBase58(),
+    });
+    for (const event of events) {
+        insertHolderEvent(event);
     }
 
-    return result;
+    storeTransaction(tx.signature, tx.timestamp, JSON.stringify(tx));
+    markSignatureProcessed(tx.signature, via);
+    result.transactionsProcessed++;
+    result.processedSignatures.push(tx.signature);
 }
 
 /**
- * Compute wallet ages in background with rate limiting.
+ * Scan for new token activity using the configured transaction source.
+ *
+ * Incremental scans first drain any pending backfill range left by an
+ * earlier tick, and only then read from the head of history. If the head
+ * scan runs out of budget before reaching the old cursor, the cursor is not
+ * advanced; the unscanned range is saved as a backfill for the next tick.
+ *
+ * Bootstrap scans read the newest `limit` transactions without stopping at
+ * the cursor (the buy ledger makes re-processing harmless).
  */
-async function computeAgesInBackground(
+export async function scanTokenActivity(
     connection: Connection,
-    wallets: string[]
-): Promise<void> {
-    console.log(`[SCAN] Computing ages for ${wallets.length} wallets in background`);
+    limit: number,
+    isBootstrap: boolean = false,
+    source: TransactionSource = createTransactionSource(connection)
+): Promise<ScanResult> {
+    const config = getConfig();
+    const tokenMintStr = config.tokenMint.toBase58();
 
-    // Process in small batches with delays
-    const BATCH_SIZE = 5;
-    const DELAY_MS = 500;
+    const result: ScanResult = {
+        newHolders: [],
+        buysDetected: [],
+        sellsDetected: [],
+        transactionsProcessed: 0,
+        processedSignatures: [],
+        lastSignature: null,
+    };
 
-    for (let i = 0; i < wallets.length; i += BATCH_SIZE) {
-        const batch = wallets.slice(i, i + BATCH_SIZE);
+    const seenHolders = new Set<string>();
+    let budget = limit;
+
+    console.log(`[SCAN] Using ${source.name} transaction source`);
+
+    // Phase 1: drain a pending backfill range
+    let backfill = getBackfillState();
+
+    if (backfill && !isBootstrap) {
+        console.log(`[SCAN] Draining backfill (${backfill.processed} done so far, ` +
+            `${backfill.beforeTs - (backfill.untilTs ?? backfill.beforeTs)}s of history remaining)`);
 
-        await Promise.all(
-            batch.map(wallet => computeWalletAge(connection, wallet).catch(err => {
-                console.error(`[SCAN] Age computation error for ${wallet}:`, err);
-            }))
+        const progress = await scanRange(
+            source, tokenMintStr, backfill.before, backfill.until, budget, result, seenHolders
         );
+        budget -= progress.fetched;
+
+        if (progress.reachedStop || progress.exhausted) {
+            console.log(`[SCAN] Backfill complete, advancing cursor to ${backfill.head.slice(0, 8)}...`);
+            setCursor(backfill.head, backfill.headTs);
+            setBackfillState(null);
+            backfill = null;
+        } else {
+            if (progress.oldest) {
+                backfill.before = progress.oldest.signature;
+                backfill.beforeTs = progress.oldest.timestamp || backfill.beforeTs;
+            }
+            backfill.processed += result.transactionsProcessed;
+            setBackfillState(backfill);
+        }
+    }
 
-        if (i + BATCH_SIZE < wallets.length) {
-            await new Promise(resolve => setTimeout(resolve, DELAY_MS));
+    // Phase 2: scan from the head of history
+    if ((!backfill || isBootstrap) && budget > 0) {
+        const cursor = getScanState(SCAN_STATE_KEY);
+        const cursorTsRaw = getScanState(SCAN_STATE_CURSOR_TS_KEY);
+        const cursorTs = cursorTsRaw ? parseInt(cursorTsRaw, 10) : null;
+        const processedBefore = result.transactionsProcessed;
+
+        const progress = await scanRange(
+            source, tokenMintStr, undefined, cursor, budget, result, seenHolders, !isBootstrap
+        );
+
+        // Without a cursor this is a first run: the page limit is the history window
+        const coveredCursor = !cursor || progress.reachedStop || progress.exhausted;
+
+        if (progress.newest) {
+            setScanState(SCAN_STATE_HEAD_TS_KEY, progress.newest.timestamp.toString());
+        }
+
+        if (progress.newest && coveredCursor) {
+            setCursor(progress.newest.signature, progress.newest.timestamp);
+            if (isBootstrap) setBackfillState(null);
+        } else if (progress.newest && progress.oldest) {
+            const gap: BackfillState = {
+                head: progress.newest.signature,
+                headTs: progress.newest.timestamp,
+                before: progress.oldest.signature,
+                beforeTs: progress.oldest.timestamp || progress.newest.timestamp,
+                until: cursor,
+                untilTs: cursorTs,
+                processed: result.transactionsProcessed - processedBefore,
+            };
+            console.log(`[SCAN] Stopped before last processed signature, ` +
+                `saving backfill range (${gap.beforeTs - (gap.untilTs ?? gap.beforeTs)}s of history)`);
+            setBackfillState(gap);
         }
     }
+
+    setScanState(SCAN_STATE_TIMESTAMP_KEY, Math.floor(Date.now() / 1000).toString());
+
+    console.log(`[SCAN] Processed ${result.transactionsProcessed} transactions, ` +
+        `${result.newHolders.length} new holders, ${result.buysDetected.length} buys, ` +
+        `${result.sellsDetected.length} sells detected`);
+
+    queueNewHolderLookups(result.newHolders);
+
+    return result;
+}
+
+/**
+ * Apply specific transactions pushed to us (stream or webhook) through the
+ * same pipeline as the polling scan. Already-processed signatures are
+ * filtered before fetching.
+ */
+export async function processTransactions(
+    connection: Connection,
+    transactions: HeliusEnrichedTransaction[],
+    via: string
+): Promise<ScanResult> {
+    const tokenMintStr = getConfig().tokenMint.toBase58();
+
+    const result: ScanResult = {
+        newHolders: [],
+        buysDetected: [],
+        sellsDetected: [],
+        transactionsProcessed: 0,
+        processedSignatures: [],
+        lastSignature: null,
+    };
+    const seenHolders = new Set<string>();
+
+    for (const tx of transactions) {
+        processTransaction(tx, tokenMintStr, result, seenHolders, via);
+    }
+
+    if (result.transactionsProcessed > 0) {
+        console.log(`[SCAN] ${via}: processed ${result.transactionsProcessed} transactions, ` +
+            `${result.newHolders.length} new holders, ${result.buysDetected.length} buys, ` +
+            `${result.sellsDetected.length} sells detected`);
+    }
+
+    queueNewHolderLookups(result.newHolders);
+
+    return result;
+}
+
+/**
+ * Fetch and apply transactions by signature, skipping any already processed.
+ */
+export async function processSignatures(
+    connection: Connection,
+    signatures: string[],
+    via: string,
+    source: TransactionSource = createTransactionSource(connection)
+): Promise<ScanResult> {
+    const pending = signatures.filter(sig => !isSignatureProcessed(sig));
+    const transactions = pending.length > 0
+        ? await source.fetchTransactionsBySignature(pending)
+        : [];
+
+    return processTransactions(connection, transactions, via);
+}
+
+/**
+ * Re-apply an archived transaction during a rebuild: same pipeline as live
+ * ingestion, without wallet age lookups.
+ */
+export function replayTransaction(tx: HeliusEnrichedTransaction): void {
+    const result: ScanResult = {
+        newHolders: [],
+        buysDetected: [],
+        sellsDetected: [],
+        transactionsProcessed: 0,
+        processedSignatures: [],
+        lastSignature: null,
+    };
+
+    processTransaction(tx, getConfig().tokenMint.toBase58(), result, new Set<string>(), 'rebuild');
+}
+
+/**
+ * Queue wallet-age discovery and funding-source lookups for new holders.
+ */
+function queueNewHolderLookups(wallets: string[]): void {
+    if (wallets.length === 0) return;
+
+    enqueueWalletAges(wallets);
+    enqueueFundingLookups(wallets);
+    console.log(`[SCAN] Queued age and funding lookups for ${wallets.length} new holders`);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scan Status
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ScanStatus {
+    lastProcessedSignature: string | null;
+    lastProcessedTs: number | null;
+    lastScanTs: number | null;
+    backfillPending: boolean;
+    backfillProcessed: number;
+    /**
+     * Indexer lag: block time of the newest mint transaction the last head
+     * scan saw, minus the cursor's. 0 when caught up, however quiet the mint.
+     */
+    behindSeconds: number;
+    /** Span of older chain history (seconds) the backfill has not indexed yet */
+    backfillBehindSeconds: number;
+    /** Seconds since the newest processed mint transaction (null before the first scan) */
+    lastTransactionAgeSeconds: number | null;
+}
+
+/**
+ * Summarize indexer progress for the status API.
+ */
+export function getScanStatus(now: number = Math.floor(Date.now() / 1000)): ScanStatus {
+    const cursorTsRaw = getScanState(SCAN_STATE_CURSOR_TS_KEY);
+    const lastScanRaw = getScanState(SCAN_STATE_TIMESTAMP_KEY);
+    const headTsRaw = getScanState(SCAN_STATE_HEAD_TS_KEY);
+    const backfill = getBackfillState();
+    const lastProcessedTs = cursorTsRaw ? parseInt(cursorTsRaw, 10) : null;
+
+    let behindSeconds = 0;
+    if (headTsRaw && lastProcessedTs !== null) {
+        behindSeconds = Math.max(0, parseInt(headTsRaw, 10) - lastProcessedTs);
+    }
+
+    let backfillBehindSeconds = 0;
+    if (backfill) {
+        const untilTs = backfill.untilTs ?? backfill.beforeTs;
+        backfillBehindSeconds = Math.max(0, backfill.beforeTs - untilTs);
+    }
+
+    // With a backfill pending, everything down from its head is already processed
+    const newestProcessedTs = backfill?.headTs ?? lastProcessedTs;
+
+    return {
+        lastProcessedSignature: getScanState(SCAN_STATE_KEY),
+        lastProcessedTs,
+        lastScanTs: lastScanRaw ? parseInt(lastScanRaw, 10) : null,
+        backfillPending: backfill !== null,
+        backfillProcessed: backfill?.processed ?? 0,
+        behindSeconds,
+        backfillBehindSeconds,
+        lastTransactionAgeSeconds: newestProcessedTs === null ? null : Math.max(0, now - newestProcessedTs),
+    };
 }
 
 /**
@@ -1,40 +1,34 @@
 import { Connection } from '@solana/web3.js';
-import { getConfig } from './config';
-import { getEligibleHolders, HolderRow, updateStreakAndTwb } from './db';
+import { getConfig, Config } from './config';
+import {
+    getEligibleHolders,
+    getRoundsSinceLastWin,
+    HolderRow,
+    updateStreakAndTwb,
+    insertRoundCommitment,
+    markCommitmentRevealed,
+    RoundCommitmentRow,
+} from './db';
 import { getWalletAgeDays } from './age';
 import { rawToUi } from './token';
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Seeded PRNG (Mulberry32)
-// ─────────────────────────────────────────────────────────────────────────────
-
-/**
- * Mulberry32 - Simple seeded PRNG
- * Returns a function that produces random numbers in [0, 1)
- */
-function mulberry32(seed: number): () => number {
-    return function () {
-        let t = seed += 0x6D2B79F5;
-        t = Math.imul(t ^ t >>> 15, t | 1);
-        t ^= t + Math.imul(t ^ t >>> 7, t | 61);
-        return ((t ^ t >>> 14) >>> 0) / 4294967296;
-    };
-}
-
-/**
- * Create a seed from multiple inputs using a simple hash function
- */
-function createSeed(timestamp: number, tokenMint: string, blockhash: string): number {
-    // Simple string-to-number hash
-    const combined = `${timestamp}-${tokenMint}-${blockhash}`;
-    let hash = 0;
-    for (let i = 0; i < combined.length; i++) {
-        const char = combined.charCodeAt(i);
-        hash = ((hash << 5) - hash) + char;
-        hash = hash & hash; // Convert to 32-bit integer
-    }
-    return Math.abs(hash);
-}
+import { computeTwb } from './twb';
+import { continuityCreditFactor, getContinuityPolicy } from './continuity';
+import {
+    createWeightStrategy,
+    applyClusterPolicy,
+    cooldownFactor,
+    CooldownPolicy,
+    WeightStrategy,
+} from './weights';
+import {
+    EligibilitySnapshot,
+    computeCommitment,
+    deriveSeed,
+    createSeededRandom,
+    drawWeighted,
+    sortSnapshotEntries,
+} from './lottery';
+import { writeCommitmentLog } from './log';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Eligibility Types
@@ -48,6 +42,18 @@ export interface EligibleHolder {
     cumulativeBuySol: number;
     tokenBalanceUi: number;
     tokenBalanceRaw: string;
+    /** Funding cluster, null if the wallet is not clustered */
+    clusterId: string | null;
+    /** Eligible wallets in the same cluster (1 if unclustered) */
+    clusterSize: number;
+    /** Multiplier applied to the weight by the cluster policy */
+    clusterFactor: number;
+    /** Reward rounds since the wallet last won, null if it never won */
+    roundsSinceWin: number | null;
+    /** Multiplier applied to the weight by the winner cooldown */
+    cooldownFactor: number;
+    /** Factors from the weight strategy, by name */
+    weightFactors: Record<string, number>;
     weight: number;
 }
 
@@ -56,10 +62,13 @@ export interface Winner extends EligibleHolder {
 }
 
 export interface LotteryContext {
-    seed: number;
+    /** Hex SHA-256(blockhash ‖ commitment) */
+    seed: string;
     seedInputs: {
-        timestamp: number;
-        tokenMint: string;
+        commitment: string;
+        targetSlot: number;
+        /** First produced slot at or after targetSlot */
+        revealSlot: number;
         blockhash: string;
     };
     roundId: string;
@@ -69,24 +78,30 @@ export interface LotteryContext {
 // Weight Calculation
 // ─────────────────────────────────────────────────────────────────────────────
 
+export function getWeightStrategy(config: Config): WeightStrategy {
+    return createWeightStrategy(config.weightStrategy, config.weightParams);
+}
+
+export function getCooldownPolicy(config: Config): CooldownPolicy {
+    return {
+        mode: config.cooldownMode,
+        rounds: config.cooldownRounds,
+        decayFactor: config.cooldownDecayFactor,
+    };
+}
+
 /**
- * Calculate lottery weight for a holder.
- * 
- * Formula:
- *   weight = sqrt(wallet_age_days) 
- *          × min(3, 1 + streak_rounds / 10) 
+ * Calculate lottery weight for a holder with the configured strategy
+ * (see `WEIGHT_STRATEGY`). The default reproduces the original formula:
+ *
+ *   weight = sqrt(wallet_age_days)
+ *          × min(3, 1 + streak_rounds / 10)
  *          × min(5, 1 + log10(1 + twb_score))
- * 
- * Capped at 10.
+ *
+ * capped at 10.
  */
-export function calculateWeight(holder: EligibleHolder): number {
-    const ageFactor = Math.sqrt(holder.walletAgeDays);
-    const streakFactor = Math.min(3, 1 + holder.streakRounds / 10);
-    const twbFactor = Math.min(5, 1 + Math.log10(1 + holder.twbScore));
-
-    const weight = ageFactor * streakFactor * twbFactor;
-
-    return Math.min(10, weight);
+export function calculateWeight(holder: EligibleHolder, strategy: WeightStrategy = getWeightStrategy(getConfig())): number {
+    return strategy.weigh(holder).weight;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -102,9 +117,22 @@ export function calculateWeight(holder: EligibleHolder): number {
  * 3. cumulative_buy_sol >= 0.1 (high confidence only)
  * 4. token_balance > 0
  * 5. not blacklisted
+ *
+ * TWB is integrated from balance snapshots over the current continuity period.
+ * In decay continuity mode, streak and TWB carry any outstanding sell penalty.
+ * Recent winners' weights are reduced per the winner cooldown, then weights
+ * of wallets sharing a funding cluster are adjusted per `clusterMode`.
+ *
+ * Age-weighted strategies skip holders whose age is still a lower bound
+ * until discovery reaches the first transaction (see `resumeWalletAges`).
  */
 export function getEligibleHoldersWithWeights(decimals: number): EligibleHolder[] {
     const config = getConfig();
+    const policy = getContinuityPolicy(config);
+    const strategy = getWeightStrategy(config);
+    const cooldown = getCooldownPolicy(config);
+    const winHistory = getRoundsSinceLastWin();
+    const now = Math.floor(Date.now() / 1000);
 
     // Query DB for basic eligibility
     const holders = getEligibleHolders(
@@ -114,32 +142,62 @@ export function getEligibleHoldersWithWeights(decimals: number): EligibleHolder[
     );
 
     console.log(`[SCORING] Found ${holders.length} eligible holders from database`);
+    console.log(`[SCORING] Weight strategy: ${strategy.name}`);
 
     // Compute weights
     const eligible: EligibleHolder[] = [];
+    let pendingAge = 0;
 
     for (const holder of holders) {
         if (!holder.first_seen_ts) continue;
         if (!holder.last_balance_raw || holder.last_balance_raw === '0') continue;
+        if (strategy.usesWalletAge && holder.age_status !== 'exact') {
+            pendingAge++;
+            continue;
+        }
 
         const walletAgeDays = getWalletAgeDays(holder.first_seen_ts);
+        const credit = continuityCreditFactor(policy, holder.last_decrease_ts, holder.last_decrease_fraction, now);
         const tokenBalanceUi = rawToUi(holder.last_balance_raw, decimals);
 
         const eligibleHolder: EligibleHolder = {
             wallet: holder.wallet,
             walletAgeDays,
-            streakRounds: holder.streak_rounds,
-            twbScore: holder.twb_score,
+            streakRounds: holder.streak_rounds * credit,
+            twbScore: computeTwb(holder.wallet, holder.continuity_start_ts ?? now, now, decimals) * credit,
             cumulativeBuySol: holder.cumulative_buy_sol,
             tokenBalanceUi,
             tokenBalanceRaw: holder.last_balance_raw,
+            clusterId: holder.cluster_id,
+            clusterSize: 1,
+            clusterFactor: 1,
+            roundsSinceWin: winHistory.get(holder.wallet) ?? null,
+            cooldownFactor: 1,
+            weightFactors: {},
             weight: 0,
         };
 
-        eligibleHolder.weight = calculateWeight(eligibleHolder);
+        const { weight, factors } = strategy.weigh(eligibleHolder);
+        eligibleHolder.cooldownFactor = cooldownFactor(eligibleHolder.roundsSinceWin, cooldown);
+        eligibleHolder.weight = weight * eligibleHolder.cooldownFactor;
+        eligibleHolder.weightFactors = factors;
         eligible.push(eligibleHolder);
     }
 
+    if (pendingAge > 0) {
+        console.log(`[SCORING] Skipped ${pendingAge} holders whose wallet age is still a lower bound (discovery in progress)`);
+    }
+
+    const cooledDown = eligible.filter(h => h.cooldownFactor < 1).length;
+    if (cooledDown > 0) {
+        console.log(`[SCORING] Winner cooldown '${cooldown.mode}' applied to ${cooledDown} recent winners`);
+    }
+
+    const clustersAdjusted = applyClusterPolicy(eligible, config.clusterMode);
+    if (clustersAdjusted > 0) {
+        console.log(`[SCORING] Applied cluster policy '${config.clusterMode}' to ${clustersAdjusted} clusters`);
+    }
+
     console.log(`[SCORING] ${eligible.length} holders with computed weights`);
 
     return eligible;
@@ -149,46 +207,149 @@ export function getEligibleHoldersWithWeights(decimals: number): EligibleHolder[
 // Deterministic Weighted Lottery Selection
 // ─────────────────────────────────────────────────────────────────────────────
 
+const REVEAL_POLL_MS = 2000;
+const REVEAL_MAX_WAIT_MS = 120_000;
+/** Slots searched past the target for a produced block */
+const REVEAL_SLOT_SEARCH = 100;
+
 /**
- * Create lottery context with deterministic seed.
- * The seed is derived from: timestamp + tokenMint + blockhash
- * This allows anyone to reproduce the winner selection from logs.
+ * Commit to the eligible set before the seed exists (commit phase).
+ *
+ * The snapshot (entries sorted by wallet, with weights and weight inputs)
+ * is bound to a target slot `revealSlotDelay` slots ahead, hashed into a
+ * commitment, stored, and published to the transparency logs. The round
+ * must then be drawn from exactly this snapshot.
  */
-export async function createLotteryContext(
+export async function commitEligibleSet(
     connection: Connection,
     roundId: string,
-    timestamp: number
-): Promise<LotteryContext> {
+    eligible: EligibleHolder[]
+): Promise<RoundCommitmentRow> {
     const config = getConfig();
+    const createdTs = Math.floor(Date.now() / 1000);
+    const currentSlot = await connection.getSlot('finalized');
+    const sorted = sortSnapshotEntries(eligible);
 
-    // Fetch latest blockhash for deterministic seed
-    const { blockhash } = await connection.getLatestBlockhash('confirmed');
-    const tokenMint = config.tokenMint.toBase58();
+    const snapshot: EligibilitySnapshot = {
+        roundId,
+        tokenMint: config.tokenMint.toBase58(),
+        createdTs,
+        targetSlot: currentSlot + config.revealSlotDelay,
+        winnersCount: config.winnersPerRound,
+        weighting: {
+            strategy: config.weightStrategy,
+            params: config.weightParams,
+            clusterMode: config.clusterMode,
+            cooldown: getCooldownPolicy(config),
+        },
+        entries: sorted.map(h => ({
+            wallet: h.wallet,
+            walletAgeDays: h.walletAgeDays,
+            streakRounds: h.streakRounds,
+            twbScore: h.twbScore,
+            tokenBalanceUi: h.tokenBalanceUi,
+            clusterId: h.clusterId,
+            roundsSinceWin: h.roundsSinceWin,
+            weight: h.weight,
+        })),
+    };
+    const commitment = computeCommitment(snapshot);
+
+    const row: RoundCommitmentRow = {
+        round_id: roundId,
+        commitment,
+        target_slot: snapshot.targetSlot,
+        snapshot_json: JSON.stringify(snapshot),
+        eligible_json: JSON.stringify(sorted),
+        status: 'committed',
+        reveal_slot: null,
+        blockhash: null,
+        seed: null,
+        created_ts: createdTs,
+        revealed_ts: null,
+        payout_json: null,
+    };
+    insertRoundCommitment(row);
+    writeCommitmentLog(snapshot, commitment);
+
+    console.log(`[SCORING] Committed ${sorted.length} eligible holders to slot ${snapshot.targetSlot}`);
+    console.log(`[SCORING]   Commitment: ${commitment}`);
 
-    const seed = createSeed(timestamp, tokenMint, blockhash);
+    return row;
+}
+
+/**
+ * Reveal phase: wait for the target slot to finalize, take the blockhash of
+ * the first produced block at or after it, and derive the seed as
+ * SHA-256(blockhash ‖ commitment). An already revealed commitment is reused
+ * as-is, so a retried round draws the same winners.
+ */
+export async function createLotteryContext(
+    connection: Connection,
+    commitment: RoundCommitmentRow
+): Promise<LotteryContext> {
+    let { reveal_slot: revealSlot, blockhash, seed } = commitment;
+
+    if (revealSlot === null || blockhash === null || seed === null) {
+        const deadline = Date.now() + REVEAL_MAX_WAIT_MS;
+        while (await connection.getSlot('finalized') < commitment.target_slot) {
+            if (Date.now() > deadline) {
+                throw new Error(`Target slot ${commitment.target_slot} not finalized in time; round will resume`);
+            }
+            await new Promise(resolve => setTimeout(resolve, REVEAL_POLL_MS));
+        }
+
+        const produced = await connection.getBlocks(
+            commitment.target_slot,
+            commitment.target_slot + REVEAL_SLOT_SEARCH,
+            'finalized'
+        );
+        if (produced.length === 0) {
+            throw new Error(`No block produced within ${REVEAL_SLOT_SEARCH} slots of ${commitment.target_slot}`);
+        }
+
+        revealSlot = produced[0];
+        const block = await connection.getBlock(revealSlot, {
+            commitment: 'finalized',
+            maxSupportedTransactionVersion: 0,
+            transactionDetails: 'none',
+            rewards: false,
+        });
+        if (!block) {
+            throw new Error(`Block ${revealSlot} unavailable`);
+        }
+
+        blockhash = block.blockhash;
+        seed = deriveSeed(blockhash, commitment.commitment);
+        markCommitmentRevealed(commitment.round_id, revealSlot, blockhash, seed);
+    }
 
     const context: LotteryContext = {
         seed,
         seedInputs: {
-            timestamp,
-            tokenMint,
+            commitment: commitment.commitment,
+            targetSlot: commitment.target_slot,
+            revealSlot,
             blockhash,
         },
-        roundId,
+        roundId: commitment.round_id,
     };
 
     console.log(`[SCORING] Lottery context created:`);
-    console.log(`[SCORING]   Round ID: ${roundId}`);
-    console.log(`[SCORING]   Seed: ${seed}`);
+    console.log(`[SCORING]   Round ID: ${context.roundId}`);
+    console.log(`[SCORING]   Commitment: ${commitment.commitment}`);
+    console.log(`[SCORING]   Reveal slot: ${revealSlot} (target ${commitment.target_slot})`);
     console.log(`[SCORING]   Blockhash: ${blockhash}`);
-    console.log(`[SCORING]   Timestamp: ${timestamp}`);
+    console.log(`[SCORING]   Seed: ${seed}`);
 
     return context;
 }
 
 /**
  * Select winners using deterministic weighted lottery without replacement.
- * Uses seeded PRNG for reproducible results.
+ * Holders are drawn in wallet order with the SHA-256 counter-mode PRNG
+ * seeded by the revealed seed, so the draw is reproducible from the
+ * published snapshot and seed.
  */
 export function selectWinners(
     eligible: EligibleHolder[],
@@ -199,40 +360,8 @@ export function selectWinners(
         return [];
     }
 
-    // Initialize seeded PRNG
-    const random = mulberry32(context.seed);
-
-    const winnersCount = Math.min(count, eligible.length);
-    const winners: EligibleHolder[] = [];
-    const remaining = [...eligible];
-
-    for (let i = 0; i < winnersCount; i++) {
-        // Calculate total weight of remaining holders
-        const totalWeight = remaining.reduce((sum, h) => sum + h.weight, 0);
-
-        if (totalWeight <= 0) {
-            break;
-        }
-
-        // Pick seeded random value in [0, totalWeight)
-        const randomValue = random() * totalWeight;
-
-        // Find winner
-        let cumulative = 0;
-        let winnerIndex = 0;
-
-        for (let j = 0; j < remaining.length; j++) {
-            cumulative += remaining[j].weight;
-            if (randomValue < cumulative) {
-                winnerIndex = j;
-                break;
-            }
-        }
-
-        // Add winner and remove from remaining
-        winners.push(remaining[winnerIndex]);
-        remaining.splice(winnerIndex, 1);
-    }
+    const random = createSeededRandom(context.seed);
+    const winners = drawWeighted(sortSnapshotEntries(eligible), count, random);
 
     console.log(`[SCORING] Selected ${winners.length} winners (seed: ${context.seed})`);
 
@@ -291,15 +420,12 @@ export function selectWinnersLegacy(
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Update streak and TWB for eligible holders after a reward round.
+ * Update streak and store the TWB used for eligible holders after a reward round.
  */
-export function updateEligibleHoldersStreakAndTwb(
-    eligible: EligibleHolder[],
-    rewardIntervalSeconds: number
-): void {
+export function updateEligibleHoldersStreakAndTwb(eligible: EligibleHolder[]): void {
     console.log(`[SCORING] Updating streak and TWB for ${eligible.length} eligible holders`);
 
     for (const holder of eligible) {
-        updateStreakAndTwb(holder.wallet, holder.tokenBalanceUi, rewardIntervalSeconds);
+        updateStreakAndTwb(holder.wallet, holder.twbScore);
     }
 }
@@ -0,0 +1,439 @@
+import {
+    Connection,
+    PublicKey,
+    ParsedTransactionWithMeta,
+    ParsedInstruction,
+    PartiallyDecodedInstruction,
+} from '@solana/web3.js';
+import fetch from 'cross-fetch';
+import { getConfig } from './config';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helius Enhanced API Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface HeliusTokenTransfer {
+    fromUserAccount: string;
+    toUserAccount: string;
+    fromTokenAccount: string;
+    toTokenAccount: string;
+    tokenAmount: number;
+    mint: string;
+}
+
+export interface HeliusNativeTransfer {
+    fromUserAccount: string;
+    toUserAccount: string;
+    amount: number; // lamports
+}
+
+export interface HeliusSwapEvent {
+    nativeInput?: {
+        account: string;
+        amount: string;
+    };
+    nativeOutput?: {
+        account: string;
+        amount: string;
+    };
+    tokenInputs?: Array<{
+        userAccount: string;
+        tokenAccount: string;
+        mint: string;
+        rawTokenAmount: {
+            tokenAmount: string;
+            decimals: number;
+        };
+    }>;
+    tokenOutputs?: Array<{
+        userAccount: string;
+        tokenAccount: string;
+        mint: string;
+        rawTokenAmount: {
+            tokenAmount: string;
+            decimals: number;
+        };
+    }>;
+}
+
+export interface HeliusTokenBalanceChange {
+    userAccount: string;
+    tokenAccount: string;
+    mint: string;
+    rawTokenAmount: {
+        tokenAmount: string;
+        decimals: number;
+    };
+}
+
+export interface HeliusInstruction {
+    programId: string;
+    accounts: string[];
+    data: string; // base58
+    innerInstructions?: HeliusInstruction[];
+}
+
+export interface HeliusEnrichedTransaction {
+    signature: string;
+    timestamp: number;
+    type: string;
+    source: string;
+    fee: number;
+    feePayer: string;
+    tokenTransfers: HeliusTokenTransfer[];
+    nativeTransfers: HeliusNativeTransfer[];
+    events?: {
+        swap?: HeliusSwapEvent;
+    };
+    instructions?: HeliusInstruction[];
+    accountData: Array<{
+        account: string;
+        nativeBalanceChange: number;
+        tokenBalanceChanges: HeliusTokenBalanceChange[];
+    }>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Transaction Source Interface
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface TransactionPage {
+    /** Transactions, newest first */
+    transactions: HeliusEnrichedTransaction[];
+    /** Pass as `before` to fetch the next (older) page; undefined when exhausted */
+    paginationToken?: string;
+}
+
+/**
+ * A provider of enriched transactions touching an address.
+ * Every implementation yields the Helius enhanced shape so buy detection
+ * and holder extraction do not care where the data came from.
+ */
+export interface TransactionSource {
+    readonly name: string;
+    fetchTransactions(address: string, limit: number, before?: string): Promise<TransactionPage>;
+    /** Fetch specific transactions; unknown or failed signatures are omitted */
+    fetchTransactionsBySignature(signatures: string[]): Promise<HeliusEnrichedTransaction[]>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helius Enhanced API Source
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class HeliusTransactionSource implements TransactionSource {
+    readonly name = 'helius';
+
+    constructor(private readonly apiKey: string) { }
+
+    async fetchTransactions(address: string, limit: number, before?: string): Promise<TransactionPage> {
+        const url = `https://api.helius.xyz/v0/addresses/${address}/transactions`;
+        const params = new URLSearchParams({
+            'api-key': this.apiKey,
+            limit: limit.toString(),
+        });
+
+        if (before) {
+            params.set('before', before);
+        }
+
+        const response = await fetch(`${url}?${params.toString()}`);
+
+        if (!response.ok) {
+            throw new Error(`Helius API error: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json() as HeliusEnrichedTransaction[];
+
+        // Helius returns array directly, pagination token is last signature
+        const lastSig = data.length > 0 ? data[data.length - 1].signature : undefined;
+
+        return {
+            transactions: data,
+            paginationToken: data.length === limit ? lastSig : undefined,
+        };
+    }
+
+    async fetchTransactionsBySignature(signatures: string[]): Promise<HeliusEnrichedTransaction[]> {
+        if (signatures.length === 0) return [];
+
+        const url = `https://api.helius.xyz/v0/transactions?api-key=${this.apiKey}`;
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ transactions: signatures }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Helius API error: ${response.status} ${response.statusText}`);
+        }
+
+        return await response.json() as HeliusEnrichedTransaction[];
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Plain RPC Source
+// ─────────────────────────────────────────────────────────────────────────────
+
+const RPC_FETCH_CONCURRENCY = 5;
+
+type AnyInstruction = ParsedInstruction | PartiallyDecodedInstruction;
+
+/**
+ * Builds enriched transactions from standard JSON-RPC calls
+ * (getSignaturesForAddress + getParsedTransaction).
+ */
+export class RpcTransactionSource implements TransactionSource {
+    readonly name = 'rpc';
+
+    constructor(private readonly connection: Connection) { }
+
+    async fetchTransactions(address: string, limit: number, before?: string): Promise<TransactionPage> {
+        const signatures = await this.connection.getSignaturesForAddress(
+            new PublicKey(address),
+            { limit, before }
+        );
+
+        const transactions = await this.fetchTransactionsBySignature(signatures.map(s => s.signature));
+
+        const lastSig = signatures.length > 0 ? signatures[signatures.length - 1].signature : undefined;
+
+        return {
+            transactions,
+            paginationToken: signatures.length === limit ? lastSig : undefined,
+        };
+    }
+
+    async fetchTransactionsBySignature(signatures: string[]): Promise<HeliusEnrichedTransaction[]> {
+        const transactions: HeliusEnrichedTransaction[] = [];
+
+        for (let i = 0; i < signatures.length; i += RPC_FETCH_CONCURRENCY) {
+            const batch = signatures.slice(i, i + RPC_FETCH_CONCURRENCY);
+
+            const parsed = await Promise.all(
+                batch.map(signature => this.connection.getParsedTransaction(signature, {
+                    commitment: 'confirmed',
+                    maxSupportedTransactionVersion: 0,
+                }))
+            );
+
+            for (let j = 0; j < parsed.length; j++) {
+                const tx = parsed[j];
+                // Failed transactions move no tokens, skip them like Helius does
+                if (!tx || !tx.meta || tx.meta.err) continue;
+                transactions.push(normalizeParsedTransaction(batch[j], tx));
+            }
+        }
+
+        return transactions;
+    }
+}
+
+/**
+ * Convert an RPC parsed transaction into the Helius enhanced shape.
+ *
+ * Token balance changes are attributed to the owning wallet's accountData
+ * entry (not the token account), so a wallet's SOL and token deltas sit
+ * side by side the way buy detection expects.
+ */
+export function normalizeParsedTransaction(
+    signature: string,
+    tx: ParsedTransactionWithMeta
+): HeliusEnrichedTransaction {
+    const meta = tx.meta!;
+    const accountKeys = tx.transaction.message.accountKeys.map(k => k.pubkey.toBase58());
+
+    // Token account -> { owner, mint, decimals } from pre/post token balances
+    const tokenAccounts = new Map<string, { owner: string; mint: string; decimals: number }>();
+    const tokenDeltas = new Map<string, { pre: bigint; post: bigint }>();
+
+    for (const bal of meta.preTokenBalances ?? []) {
+        const tokenAccount = accountKeys[bal.accountIndex];
+        tokenAccounts.set(tokenAccount, {
+            owner: bal.owner ?? '',
+            mint: bal.mint,
+            decimals: bal.uiTokenAmount.decimals,
+        });
+        tokenDeltas.set(tokenAccount, { pre: BigInt(bal.uiTokenAmount.amount), post: BigInt(0) });
+    }
+
+    for (const bal of meta.postTokenBalances ?? []) {
+        const tokenAccount = accountKeys[bal.accountIndex];
+        tokenAccounts.set(tokenAccount, {
+            owner: bal.owner ?? '',
+            mint: bal.mint,
+            decimals: bal.uiTokenAmount.decimals,
+        });
+        const delta = tokenDeltas.get(tokenAccount) ?? { pre: BigInt(0), post: BigInt(0) };
+        delta.post = BigInt(bal.uiTokenAmount.amount);
+        tokenDeltas.set(tokenAccount, delta);
+    }
+
+    // Native balance changes, keyed by account
+    const accountData = new Map<string, HeliusEnrichedTransaction['accountData'][number]>();
+    accountKeys.forEach((account, i) => {
+        accountData.set(account, {
+            account,
+            nativeBalanceChange: (meta.postBalances[i] ?? 0) - (meta.preBalances[i] ?? 0),
+            tokenBalanceChanges: [],
+        });
+    });
+
+    // Token balance changes, grouped under the owning wallet
+    for (const [tokenAccount, delta] of tokenDeltas) {
+        const change = delta.post - delta.pre;
+        if (change === BigInt(0)) continue;
+
+        const info = tokenAccounts.get(tokenAccount)!;
+        if (!info.owner) continue;
+
+        let entry = accountData.get(info.owner);
+        if (!entry) {
+            entry = { account: info.owner, nativeBalanceChange: 0, tokenBalanceChanges: [] };
+            accountData.set(info.owner, entry);
+        }
+
+        entry.tokenBalanceChanges.push({
+            userAccount: info.owner,
+            tokenAccount,
+            mint: info.mint,
+            rawTokenAmount: {
+                tokenAmount: change.toString(),
+                decimals: info.decimals,
+            },
+        });
+    }
+
+    // Transfers from top-level and inner parsed instructions
+    const instructions: AnyInstruction[] = [...tx.transaction.message.instructions];
+    for (const inner of meta.innerInstructions ?? []) {
+        instructions.push(...inner.instructions);
+    }
+
+    const tokenTransfers: HeliusTokenTransfer[] = [];
+    const nativeTransfers: HeliusNativeTransfer[] = [];
+
+    for (const ix of instructions) {
+        if (!('parsed' in ix) || typeof ix.parsed !== 'object' || ix.parsed === null) continue;
+        const { type, info } = ix.parsed;
+
+        if (ix.program === 'system' && type === 'transfer') {
+            nativeTransfers.push({
+                fromUserAccount: info.source,
+                toUserAccount: info.destination,
+                amount: Number(info.lamports),
+            });
+            continue;
+        }
+
+        if ((ix.program === 'spl-token' || ix.program === 'spl-token-2022') &&
+            (type === 'transfer' || type === 'transferChecked')) {
+            const source = tokenAccounts.get(info.source);
+            const destination = tokenAccounts.get(info.destination);
+            const mint = info.mint ?? source?.mint ?? destination?.mint;
+            if (!mint) continue;
+
+            const decimals = info.tokenAmount?.decimals ?? source?.decimals ?? destination?.decimals ?? 0;
+            const rawAmount = info.tokenAmount?.amount ?? info.amount ?? '0';
+
+            tokenTransfers.push({
+                fromUserAccount: source?.owner ?? info.authority ?? '',
+                toUserAccount: destination?.owner ?? '',
+                fromTokenAccount: info.source,
+                toTokenAccount: info.destination,
+                tokenAmount: Number(rawAmount) / Math.pow(10, decimals),
+                mint,
+            });
+        }
+    }
+
+    // Raw instruction tree (program decoders need data and accounts)
+    const toInstruction = (ix: AnyInstruction): HeliusInstruction => ({
+        programId: ix.programId.toBase58(),
+        accounts: 'accounts' in ix ? ix.accounts.map(a => a.toBase58()) : [],
+        data: 'data' in ix ? ix.data : '',
+    });
+
+    const instructionTree = tx.transaction.message.instructions.map((ix, index) => ({
+        ...toInstruction(ix),
+        innerInstructions: (meta.innerInstructions ?? [])
+            .filter(inner => inner.index === index)
+            .flatMap(inner => inner.instructions.map(toInstruction)),
+    }));
+
+    return {
+        signature,
+        timestamp: tx.blockTime ?? 0,
+        type: 'UNKNOWN',
+        source: 'RPC',
+        fee: meta.fee,
+        feePayer: accountKeys[0] ?? '',
+        tokenTransfers,
+        nativeTransfers,
+        instructions: instructionTree,
+        accountData: Array.from(accountData.values()),
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fallback Source
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Tries the primary source and falls back to the secondary on error,
+ * so a rate-limited or lapsed Helius key does not stop indexing.
+ */
+export class FallbackTransactionSource implements TransactionSource {
+    readonly name: string;
+
+    constructor(
+        private readonly primary: TransactionSource,
+        private readonly fallback: TransactionSource
+    ) {
+        this.name = `${primary.name}+${fallback.name}`;
+    }
+
+    async fetchTransactions(address: string, limit: number, before?: string): Promise<TransactionPage> {
+        try {
+            return await this.primary.fetchTransactions(address, limit, before);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            console.warn(`[SOURCE] ${this.primary.name} failed (${errorMessage}), falling back to ${this.fallback.name}`);
+            return this.fallback.fetchTransactions(address, limit, before);
+        }
+    }
+
+    async fetchTransactionsBySignature(signatures: string[]): Promise<HeliusEnrichedTransaction[]> {
+        try {
+            return await this.primary.fetchTransactionsBySignature(signatures);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            console.warn(`[SOURCE] ${this.primary.name} failed (${errorMessage}), falling back to ${this.fallback.name}`);
+            return this.fallback.fetchTransactionsBySignature(signatures);
+        }
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Factory
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Create the transaction source selected by TRANSACTION_SOURCE.
+ */
+export function createTransactionSource(connection: Connection): TransactionSource {
+    const config = getConfig();
+
+    switch (config.transactionSource) {
+        case 'rpc':
+            return new RpcTransactionSource(connection);
+        case 'auto':
+            return new FallbackTransactionSource(
+                new HeliusTransactionSource(config.heliusApiKey),
+                new RpcTransactionSource(connection)
+            );
+        case 'helius':
+        default:
+            return new HeliusTransactionSource(config.heliusApiKey);
+    }
+}
@@ -1,5 +1,6 @@
 import * as http from 'http';
 import * as crypto from 'crypto';
+import { Connection, PublicKey } from '@solana/web3.js';
 import { getConfig } from './config.js';
 import {
     getLastRound,
@@ -8,7 +9,12 @@ import {
     getHeartbeatAge,
     isSafeMode,
     getSafeModeReason,
+    getJobQueueStats,
 } from './db.js';
+import { getScanStatus, processTransactions } from './scan.js';
+import { HeliusEnrichedTransaction } from './sources.js';
+import { getOddsReport, OddsMethod } from './odds.js';
+import { explainEligibility } from './eligibility.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Status Response Type
@@ -44,6 +50,24 @@ export interface StatusResponse {
     // Transaction references
     lastBuyTx: string | null;
     lastRewardTxs: string[];
+
+    // Indexer progress
+    scanLastRunTs: number | null;
+    scanBackfillPending: boolean;
+    /** Indexer lag behind the newest mint transaction seen on chain (0 when caught up) */
+    scanBehindSeconds: number;
+    /** Older history (seconds) the backfill has not indexed yet */
+    scanBackfillBehindSeconds: number;
+    /** Seconds since the newest processed mint transaction (null before the first scan) */
+    scanLastTransactionAgeSeconds: number | null;
+
+    // Background job queue
+    jobsPending: number;
+    jobsRunning: number;
+    /** Pending jobs that have failed at least once and await retry */
+    jobsRetrying: number;
+    /** Jobs dead-lettered after exhausting their attempts */
+    jobsDead: number;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -134,6 +158,8 @@ function buildStatus(): StatusResponse {
     // Build response without checksum first
     const heartbeatAgeSeconds = getHeartbeatAge();
     const safeMode = isSafeMode();
+    const scanStatus = getScanStatus(now);
+    const jobStats = getJobQueueStats();
 
     const response: Omit<StatusResponse, 'checksum'> = {
         now,
@@ -157,6 +183,17 @@ function buildStatus(): StatusResponse {
 
         lastBuyTx,
         lastRewardTxs,
+
+        scanLastRunTs: scanStatus.lastScanTs,
+        scanBackfillPending: scanStatus.backfillPending,
+        scanBehindSeconds: scanStatus.behindSeconds,
+        scanBackfillBehindSeconds: scanStatus.backfillBehindSeconds,
+        scanLastTransactionAgeSeconds: scanStatus.lastTransactionAgeSeconds,
+
+        jobsPending: jobStats.pending,
+        jobsRunning: jobStats.running,
+        jobsRetrying: jobStats.retrying,
+        jobsDead: jobStats.dead,
     };
 
     // Generate checksum of critical fields
@@ -174,13 +211,220 @@ function buildStatus(): StatusResponse {
     return { ...response, checksum };
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Helius Webhook
+// ─────────────────────────────────────────────────────────────────────────────
+
+const WEBHOOK_PATH = '/webhooks/helius';
+const WEBHOOK_MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+class PayloadTooLargeError extends Error {
+    constructor() {
+        super('Payload too large');
+        this.name = 'PayloadTooLargeError';
+    }
+}
+
+function readBody(req: http.IncomingMessage, maxBytes: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                reject(new PayloadTooLargeError());
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Constant-time comparison of the Authorization header against the shared secret.
+ */
+function isWebhookAuthorized(req: http.IncomingMessage, secret: string): boolean {
+    const header = req.headers['authorization'];
+    if (typeof header !== 'string') return false;
+
+    const expected = crypto.createHash('sha256').update(secret).digest();
+    const actual = crypto.createHash('sha256').update(header).digest();
+    return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * POST /webhooks/helius - apply pushed enhanced transactions through the
+ * scan pipeline. Signatures already processed by polling or streaming are
+ * skipped by the shared signature ledger.
+ */
+async function handleHeliusWebhook(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    connection: Connection
+): Promise<void> {
+    const config = getConfig();
+
+    // Route is disabled unless a secret is configured
+    if (!config.heliusWebhookSecret) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Not found' }));
+        return;
+    }
+
+    if (!isWebhookAuthorized(req, config.heliusWebhookSecret)) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Unauthorized' }));
+        return;
+    }
+
+    let payload: unknown;
+    try {
+        payload = JSON.parse(await readBody(req, WEBHOOK_MAX_BODY_BYTES));
+    } catch (err) {
+        const tooLarge = err instanceof PayloadTooLargeError;
+        res.writeHead(tooLarge ? 413 : 400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: tooLarge ? 'Payload too large' : 'Invalid JSON' }));
+        return;
+    }
+
+    if (!Array.isArray(payload)) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Expected an array of enhanced transactions' }));
+        return;
+    }
+
+    const transactions = (payload as HeliusEnrichedTransaction[]).filter(tx =>
+        tx && typeof tx.signature === 'string' &&
+        Array.isArray(tx.accountData) &&
+        Array.isArray(tx.tokenTransfers) &&
+        Array.isArray(tx.nativeTransfers)
+    );
+
+    try {
+        const result = await processTransactions(connection, transactions, 'webhook');
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+            received: payload.length,
+            processed: result.transactionsProcessed,
+        }));
+    } catch (err) {
+        console.error('[STATUS] Webhook processing error:', err);
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Internal server error' }));
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Odds
+// ─────────────────────────────────────────────────────────────────────────────
+
+const ODDS_PATH_PREFIX = '/odds/';
+
+export interface OddsResponse {
+    wallet: string;
+    eligible: boolean;
+    weight: number;
+    /** Probability of winning at least once next round */
+    probability: number;
+    /** Standard error of a Monte Carlo estimate (0 when exact) */
+    standardError: number;
+    /** Share of the total weight */
+    naiveShare: number;
+    method: OddsMethod;
+    simulations: number | null;
+    winnersPerRound: number;
+    eligibleCount: number;
+    /** Balance refresh the odds reflect; recomputed after the next one */
+    refreshTs: number | null;
+    computedTs: number;
+}
+
+function isValidWallet(wallet: string): boolean {
+    try {
+        new PublicKey(wallet);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * GET /odds/:wallet - a wallet's probability of winning the next round,
+ * from the odds cached for the current balance refresh.
+ */
+async function handleOdds(res: http.ServerResponse, wallet: string, connection: Connection): Promise<void> {
+    if (!isValidWallet(wallet)) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Invalid wallet address' }));
+        return;
+    }
+
+    try {
+        const report = await getOddsReport(connection);
+        const odds = report.wallets.find(w => w.wallet === wallet);
+
+        const response: OddsResponse = {
+            wallet,
+            eligible: odds !== undefined,
+            weight: odds?.weight ?? 0,
+            probability: odds?.probability ?? 0,
+            standardError: odds?.standardError ?? 0,
+            naiveShare: odds?.naiveShare ?? 0,
+            method: report.method,
+            simulations: report.simulations,
+            winnersPerRound: report.winnersPerRound,
+            eligibleCount: report.eligibleCount,
+            refreshTs: report.refreshTs,
+            computedTs: report.computedTs,
+        };
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response));
+    } catch (err) {
+        console.error('[STATUS] Error computing odds:', err);
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Internal server error' }));
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Eligibility
+// ─────────────────────────────────────────────────────────────────────────────
+
+const ELIGIBILITY_PATH_PREFIX = '/eligibility/';
+
+/**
+ * GET /eligibility/:wallet - each eligibility rule's result for a wallet.
+ */
+function handleEligibility(res: http.ServerResponse, wallet: string): void {
+    if (!isValidWallet(wallet)) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Invalid wallet address' }));
+        return;
+    }
+
+    try {
+        const explanation = explainEligibility(wallet);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(explanation));
+    } catch (err) {
+        console.error('[STATUS] Error explaining eligibility:', err);
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Internal server error' }));
+    }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // HTTP Server
 // ─────────────────────────────────────────────────────────────────────────────
 
 let server: http.Server | null = null;
 
-export function startStatusServer(): void {
+export function startStatusServer(connection: Connection): void {
     const config = getConfig();
     const port = config.statusServerPort;
     const allowedOrigin = config.statusAllowedOrigin;
@@ -190,8 +434,10 @@ export function startStatusServer(): void {
         const forwarded = req.headers['x-forwarded-for'];
         const ip = (typeof forwarded === 'string' ? forwarded.split(',')[0].trim() : req.socket.remoteAddress) || 'unknown';
 
-        // Reject non-GET/OPTIONS methods immediately
-        if (req.method !== 'GET' && req.method !== 'OPTIONS') {
+        const isWebhook = req.method === 'POST' && req.url === WEBHOOK_PATH;
+
+        // Reject non-GET/OPTIONS methods immediately (webhook is the only POST)
+        if (req.method !== 'GET' && req.method !== 'OPTIONS' && !isWebhook) {
             res.writeHead(405, { 'Content-Type': 'application/json' });
             res.end(JSON.stringify({ error: 'Method not allowed' }));
             return;
@@ -231,7 +477,22 @@ export function startStatusServer(): void {
             return;
         }
 
-        // Only handle GET /status
+        if (isWebhook) {
+            handleHeliusWebhook(req, res, connection);
+            return;
+        }
+
+        if (req.url?.startsWith(ELIGIBILITY_PATH_PREFIX)) {
+            handleEligibility(res, req.url.slice(ELIGIBILITY_PATH_PREFIX.length).split('?')[0]);
+            return;
+        }
+
+        if (req.url?.startsWith(ODDS_PATH_PREFIX)) {
+            handleOdds(res, req.url.slice(ODDS_PATH_PREFIX.length).split('?')[0], connection);
+            return;
+        }
+
+        // Otherwise only handle GET /status
         if (req.url !== '/status') {
             res.writeHead(404, { 'Content-Type': 'application/json' });
             res.end(JSON.stringify({ error: 'Not found' }));
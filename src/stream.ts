@@ -0,0 +1,226 @@
+import { Connection, Logs } from '@solana/web3.js';
+import { getConfig } from './config';
+import { isSignatureProcessed } from './db';
+import { processSignatures } from './scan';
+import { createTransactionSource, TransactionSource } from './sources';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Streaming Ingestion
+// ─────────────────────────────────────────────────────────────────────────────
+
+const FLUSH_INTERVAL_MS = 2000;
+const WATCHDOG_INTERVAL_MS = 5000;
+const MAX_FETCH_ATTEMPTS = 5;
+/** Streamed signatures remembered to tell what a reconciliation scan found that the stream missed */
+const MAX_SEEN_SIGNATURES = 10_000;
+
+export interface MintStreamOptions {
+    /** Seconds without a slot notification before the socket is considered dropped */
+    staleSeconds: number;
+    /** Transaction source used to fetch streamed signatures */
+    source?: TransactionSource;
+    /** Called whenever the socket becomes live, to catch up on missed activity */
+    onLive?: () => void;
+    /** Called with signatures dropped after MAX_FETCH_ATTEMPTS, so a poll can pick them up */
+    onGiveUp?: (signatures: string[]) => void;
+    /** How often streamed signatures are processed (default 2s) */
+    flushIntervalMs?: number;
+    /** How often slot silence is checked (default 5s) */
+    watchdogIntervalMs?: number;
+}
+
+/**
+ * Real-time ingestion of mint activity over the RPC websocket.
+ *
+ * Signatures from `onLogs` are batched and fed through the same pipeline as
+ * the polling scan. Liveness is tracked with a slot subscription: slots
+ * arrive every ~400ms, so silence means the socket is gone (a quiet mint
+ * alone would not tell us that). While not live, callers should poll; when
+ * the socket recovers, a catch-up scan fills the gap.
+ *
+ * Slots cannot vouch for the logs subscription, so callers also reconcile:
+ * a low-frequency poll while live, passed to `reconcile`. Transactions the
+ * poll found that never arrived as logs mark the subscription unhealthy
+ * (not live) and renew it; it is trusted again once it delivers.
+ */
+export class MintStream {
+    private readonly source: TransactionSource;
+    private logsSubscriptionId: number | null = null;
+    private slotSubscriptionId: number | null = null;
+    private flushTimer: NodeJS.Timeout | null = null;
+    private watchdogTimer: NodeJS.Timeout | null = null;
+    private pending = new Map<string, number>(); // signature -> fetch attempts
+    private seen = new Set<string>();
+    private lastSlotAt = 0;
+    private live = false;
+    private logsHealthy = true;
+    private flushing = false;
+
+    constructor(
+        private readonly connection: Connection,
+        private readonly options: MintStreamOptions
+    ) {
+        this.source = options.source ?? createTransactionSource(connection);
+    }
+
+    start(): void {
+        const config = getConfig();
+
+        this.subscribeLogs();
+
+        this.slotSubscriptionId = this.connection.onSlotChange(() => {
+            this.lastSlotAt = Date.now();
+            if (!this.live) {
+                this.setLive(true);
+            }
+        });
+
+        this.flushTimer = setInterval(() => {
+            this.flush().catch(err => console.error('[STREAM] Flush error:', err));
+        }, this.options.flushIntervalMs ?? FLUSH_INTERVAL_MS);
+
+        this.watchdogTimer = setInterval(
+            () => this.checkLiveness(),
+            this.options.watchdogIntervalMs ?? WATCHDOG_INTERVAL_MS
+        );
+
+        console.log(`[STREAM] Subscribed to logs for ${config.tokenMint.toBase58()}`);
+    }
+
+    async stop(): Promise<void> {
+        if (this.flushTimer) clearInterval(this.flushTimer);
+        if (this.watchdogTimer) clearInterval(this.watchdogTimer);
+        this.flushTimer = null;
+        this.watchdogTimer = null;
+
+        if (this.logsSubscriptionId !== null) {
+            await this.connection.removeOnLogsListener(this.logsSubscriptionId);
+            this.logsSubscriptionId = null;
+        }
+        if (this.slotSubscriptionId !== null) {
+            await this.connection.removeSlotChangeListener(this.slotSubscriptionId);
+            this.slotSubscriptionId = null;
+        }
+
+        this.live = false;
+        console.log('[STREAM] Stopped');
+    }
+
+    /**
+     * True while the websocket is delivering notifications and the logs
+     * subscription has not been caught missing transactions.
+     */
+    isLive(): boolean {
+        return this.live && this.logsHealthy;
+    }
+
+    /**
+     * Check a reconciliation poll, run while live, against what the stream
+     * delivered. Returns the signatures the stream missed.
+     */
+    reconcile(processedSignatures: string[]): string[] {
+        const missed = processedSignatures.filter(signature => !this.seen.has(signature));
+
+        if (missed.length > 0) {
+            console.warn(`[STREAM] Reconciliation found ${missed.length} transactions the stream missed, ` +
+                'renewing the logs subscription');
+            this.logsHealthy = false;
+            this.resubscribeLogs().catch(err => console.error('[STREAM] Failed to renew logs subscription:', err));
+        }
+
+        return missed;
+    }
+
+    private subscribeLogs(): void {
+        this.logsSubscriptionId = this.connection.onLogs(
+            getConfig().tokenMint,
+            (logs) => this.onLogs(logs),
+            'confirmed'
+        );
+    }
+
+    private async resubscribeLogs(): Promise<void> {
+        if (this.logsSubscriptionId !== null) {
+            const id = this.logsSubscriptionId;
+            this.logsSubscriptionId = null;
+            await this.connection.removeOnLogsListener(id);
+        }
+        if (this.flushTimer) {
+            this.subscribeLogs();
+        }
+    }
+
+    private onLogs(logs: Logs): void {
+        this.remember(logs.signature);
+        if (!this.logsHealthy) {
+            this.logsHealthy = true;
+            console.log('[STREAM] Logs subscription delivering again');
+        }
+
+        // Failed transactions move no tokens
+        if (logs.err) return;
+        if (!this.pending.has(logs.signature)) {
+            this.pending.set(logs.signature, 0);
+        }
+    }
+
+    private remember(signature: string): void {
+        this.seen.add(signature);
+        if (this.seen.size > MAX_SEEN_SIGNATURES) {
+            // Sets iterate in insertion order: drop the oldest
+            this.seen.delete(this.seen.values().next().value as string);
+        }
+    }
+
+    private checkLiveness(): void {
+        const silentMs = Date.now() - this.lastSlotAt;
+        if (this.live && silentMs > this.options.staleSeconds * 1000) {
+            this.setLive(false);
+        }
+    }
+
+    private setLive(live: boolean): void {
+        this.live = live;
+
+        if (live) {
+            console.log('[STREAM] Websocket live, polling paused');
+            // Anything that landed while we were down is picked up by one scan
+            this.options.onLive?.();
+        } else {
+            console.warn(`[STREAM] No slot updates for ${this.options.staleSeconds}s, falling back to polling`);
+        }
+    }
+
+    private async flush(): Promise<void> {
+        if (this.flushing || this.pending.size === 0) return;
+        this.flushing = true;
+
+        const batch = new Map(this.pending);
+        this.pending.clear();
+
+        try {
+            await processSignatures(this.connection, Array.from(batch.keys()), 'stream', this.source);
+        } catch (err) {
+            console.error('[STREAM] Failed to process streamed signatures:', err);
+        } finally {
+            this.flushing = false;
+        }
+
+        // Retry anything the source could not return yet (indexing lag); the ledger makes retrying safe
+        const givenUp: string[] = [];
+        for (const [signature, attempts] of batch) {
+            if (isSignatureProcessed(signature)) continue;
+            if (attempts + 1 >= MAX_FETCH_ATTEMPTS) {
+                console.warn(`[STREAM] Giving up on ${signature.slice(0, 8)}... after ${MAX_FETCH_ATTEMPTS} attempts`);
+                givenUp.push(signature);
+                continue;
+            }
+            this.pending.set(signature, attempts + 1);
+        }
+
+        // Polling is paused while live: hand them to a scan instead of waiting for the socket to drop
+        if (givenUp.length > 0) {
+            this.options.onGiveUp?.(givenUp);
+        }
+    }
+}
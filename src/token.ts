@@ -1,26 +1,130 @@
 import { Connection, PublicKey } from '@solana/web3.js';
-import { getMint, getAccount, Account } from '@solana/spl-token';
+import {
+    getMint,
+    getAccount,
+    Account,
+    Mint,
+    TOKEN_PROGRAM_ID,
+    TOKEN_2022_PROGRAM_ID,
+    getTransferFeeConfig,
+    getEpochFee,
+    calculateFee,
+} from '@solana/spl-token';
 import { getConfig } from './config';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Token Metadata Cache
 // ─────────────────────────────────────────────────────────────────────────────
 
+let _tokenProgramId: PublicKey | null = null;
+let _mintInfo: Mint | null = null;
 let _tokenDecimals: number | null = null;
 
+/**
+ * Detect the program that owns the mint: classic SPL Token or Token-2022.
+ * Every ATA derivation, account read and transfer must use this program id.
+ */
+export async function getTokenProgramId(connection: Connection): Promise<PublicKey> {
+    if (_tokenProgramId !== null) {
+        return _tokenProgramId;
+    }
+
+    const config = getConfig();
+    const accountInfo = await connection.getAccountInfo(config.tokenMint);
+
+    if (!accountInfo) {
+        throw new Error(`Token mint ${config.tokenMint.toBase58()} not found`);
+    }
+
+    if (!accountInfo.owner.equals(TOKEN_PROGRAM_ID) && !accountInfo.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+        throw new Error(`Token mint is owned by unsupported program ${accountInfo.owner.toBase58()}`);
+    }
+
+    _tokenProgramId = accountInfo.owner;
+
+    console.log(`[TOKEN] Token program: ${isToken2022(_tokenProgramId) ? 'Token-2022' : 'SPL Token'}`);
+    return _tokenProgramId;
+}
+
+export function isToken2022(programId: PublicKey): boolean {
+    return programId.equals(TOKEN_2022_PROGRAM_ID);
+}
+
+export async function getMintInfo(connection: Connection): Promise<Mint> {
+    if (_mintInfo !== null) {
+        return _mintInfo;
+    }
+
+    const config = getConfig();
+    const programId = await getTokenProgramId(connection);
+    _mintInfo = await getMint(connection, config.tokenMint, 'confirmed', programId);
+
+    return _mintInfo;
+}
+
 export async function getTokenDecimals(connection: Connection): Promise<number> {
     if (_tokenDecimals !== null) {
         return _tokenDecimals;
     }
 
-    const config = getConfig();
-    const mintInfo = await getMint(connection, config.tokenMint);
+    const mintInfo = await getMintInfo(connection);
     _tokenDecimals = mintInfo.decimals;
 
     console.log(`[TOKEN] Token decimals: ${_tokenDecimals}`);
     return _tokenDecimals;
 }
 
+/**
+ * Decimals if already loaded, for synchronous code paths.
+ */
+export function getCachedTokenDecimals(): number | null {
+    return _tokenDecimals;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Transfer Fees (Token-2022)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface TransferAmount {
+    /** Amount the recipient receives */
+    netAmount: bigint;
+    /** Amount debited from the sender */
+    grossAmount: bigint;
+    /** Fee withheld by the mint's transfer-fee extension */
+    fee: bigint;
+}
+
+/**
+ * Work out what to send so the recipient receives `netAmount` after the
+ * mint's transfer fee. Mints without the transfer-fee extension have no fee.
+ */
+export function grossUpForTransferFee(mint: Mint, epoch: bigint, netAmount: bigint): TransferAmount {
+    const feeConfig = getTransferFeeConfig(mint);
+    if (!feeConfig || netAmount === BigInt(0)) {
+        return { netAmount, grossAmount: netAmount, fee: BigInt(0) };
+    }
+
+    const transferFee = getEpochFee(feeConfig, epoch);
+    const feeFor = (gross: bigint): bigint => calculateFee(transferFee, gross);
+
+    // Fee is ceil(gross * bps / 10000), capped at the maximum fee
+    const maxBps = BigInt(10000);
+    const bps = BigInt(transferFee.transferFeeBasisPoints);
+
+    let gross = bps >= maxBps
+        ? netAmount + transferFee.maximumFee
+        : (netAmount * maxBps + (maxBps - bps) - BigInt(1)) / (maxBps - bps);
+
+    if (gross - netAmount > transferFee.maximumFee) {
+        gross = netAmount + transferFee.maximumFee;
+    }
+    while (gross - feeFor(gross) < netAmount) {
+        gross += BigInt(1);
+    }
+
+    return { netAmount, grossAmount: gross, fee: feeFor(gross) };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Balance Utilities
 // ─────────────────────────────────────────────────────────────────────────────
@@ -51,7 +155,8 @@ export async function getTokenBalance(
     tokenAccount: PublicKey
 ): Promise<bigint> {
     try {
-        const account = await getAccount(connection, tokenAccount);
+        const programId = await getTokenProgramId(connection);
+        const account = await getAccount(connection, tokenAccount, 'confirmed', programId);
         return account.amount;
     } catch (err) {
         // Account doesn't exist or other error
@@ -64,7 +169,8 @@ export async function getTokenAccountInfo(
     tokenAccount: PublicKey
 ): Promise<Account | null> {
     try {
-        return await getAccount(connection, tokenAccount);
+        const programId = await getTokenProgramId(connection);
+        return await getAccount(connection, tokenAccount, 'confirmed', programId);
     } catch {
         return null;
     }
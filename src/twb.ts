@@ -0,0 +1,137 @@
+import { getConfig } from './config';
+import {
+    BalanceSnapshotRow,
+    getBalanceSnapshots,
+    getWalletsWithRawSnapshotsBefore,
+    getRawSnapshotsBefore,
+    replaceRawSnapshots,
+} from './db';
+import { rawToUi } from './token';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Time-Weighted Balance
+// ─────────────────────────────────────────────────────────────────────────────
+
+const HOUR_SECONDS = 3600;
+
+/**
+ * Integrate a wallet's balance over [fromTs, toTs), in raw units × seconds.
+ *
+ * Balances are a step function: each raw snapshot holds until the next one.
+ * Hourly buckets contribute their stored integral (prorated if the window
+ * cuts the bucket) and then hold their closing balance.
+ */
+export function integrateBalance(rows: BalanceSnapshotRow[], fromTs: number, toTs: number): bigint {
+    let total = BigInt(0);
+    let value: bigint | null = null;
+    let since = fromTs;
+
+    const hold = (until: number): void => {
+        if (value === null) return;
+        const start = Math.max(since, fromTs);
+        const end = Math.min(until, toTs);
+        if (end > start) total += value * BigInt(end - start);
+    };
+
+    for (const row of rows) {
+        if (row.ts >= toTs) break;
+        hold(row.ts);
+
+        if (row.resolution === 'hour') {
+            const end = row.ts + HOUR_SECONDS;
+            const span = row.span_seconds ?? HOUR_SECONDS;
+            const overlapStart = Math.max(end - span, fromTs);
+            const overlapEnd = Math.min(end, toTs);
+
+            if (overlapEnd > overlapStart && span > 0) {
+                total += (BigInt(row.integral_raw ?? '0') * BigInt(overlapEnd - overlapStart)) / BigInt(span);
+            }
+            since = end;
+        } else {
+            since = row.ts;
+        }
+
+        value = BigInt(row.balance_raw);
+    }
+
+    hold(toTs);
+    return total;
+}
+
+/**
+ * Time-weighted balance in token-hours between two timestamps, from the
+ * balance snapshot history.
+ */
+export function computeTwb(wallet: string, fromTs: number, toTs: number, decimals: number): number {
+    if (toTs <= fromTs) return 0;
+
+    const rows = getBalanceSnapshots(wallet, fromTs, toTs);
+    const integral = integrateBalance(rows, fromTs, toTs);
+
+    return rawToUi(integral / BigInt(HOUR_SECONDS), decimals);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Snapshot Compaction
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Fold raw snapshots into one bucket per hour that had observations.
+ * `previous` is the row before the first raw snapshot, if any; its balance
+ * is carried into the first hour.
+ */
+export function buildHourlyBuckets(
+    previous: BalanceSnapshotRow | undefined,
+    raw: BalanceSnapshotRow[]
+): BalanceSnapshotRow[] {
+    const buckets: BalanceSnapshotRow[] = [];
+    let value: bigint | null = previous ? BigInt(previous.balance_raw) : null;
+    let i = 0;
+
+    while (i < raw.length) {
+        const hourStart = Math.floor(raw[i].ts / HOUR_SECONDS) * HOUR_SECONDS;
+        const hourEnd = hourStart + HOUR_SECONDS;
+        const coveredFrom = value === null ? raw[i].ts : hourStart;
+        let since = hourStart;
+        let integral = BigInt(0);
+
+        for (; i < raw.length && raw[i].ts < hourEnd; i++) {
+            if (value !== null) integral += value * BigInt(raw[i].ts - since);
+            value = BigInt(raw[i].balance_raw);
+            since = raw[i].ts;
+        }
+        integral += value! * BigInt(hourEnd - since);
+
+        buckets.push({
+            wallet: raw[0].wallet,
+            ts: hourStart,
+            balance_raw: value!.toString(),
+            resolution: 'hour',
+            integral_raw: integral.toString(),
+            span_seconds: hourEnd - coveredFrom,
+        });
+    }
+
+    return buckets;
+}
+
+/**
+ * Compact raw snapshots older than the retention window into hourly buckets.
+ * Returns the number of wallets compacted.
+ */
+export function compactBalanceSnapshots(now: number): number {
+    const config = getConfig();
+    const cutoff = Math.floor((now - config.snapshotRawRetentionHours * HOUR_SECONDS) / HOUR_SECONDS) * HOUR_SECONDS;
+
+    const wallets = getWalletsWithRawSnapshotsBefore(cutoff);
+    for (const wallet of wallets) {
+        const { previous, raw } = getRawSnapshotsBefore(wallet, cutoff);
+        replaceRawSnapshots(wallet, cutoff, buildHourlyBuckets(previous, raw));
+    }
+
+    if (wallets.length > 0) {
+        console.log(`[TWB] Compacted snapshots older than ${new Date(cutoff * 1000).toISOString()} for ${wallets.length} wallets`);
+    }
+
+    return wallets.length;
+}
@@ -0,0 +1,137 @@
+// Round verifier. Recomputes a reward round's commitment, seed, weights and
+// winners from its published inputs. Depends only on the lottery and weight
+// modules (no Node APIs), so it runs unchanged in the browser.
+
+import {
+    EligibilitySnapshot,
+    computeCommitment,
+    deriveSeed,
+    createSeededRandom,
+    drawWeighted,
+    sortSnapshotEntries,
+} from './lottery';
+import { createWeightStrategy, applyClusterPolicy, cooldownFactor } from './weights';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Verification Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Relative tolerance when comparing recomputed weights to published ones */
+const WEIGHT_TOLERANCE = 1e-9;
+
+/**
+ * Everything a round publishes that the draw depends on: the commitment
+ * file (`commitments/<roundId>.json`) and the reward log entry's `lottery`
+ * block and winners (in draw order).
+ */
+export interface PublishedRound {
+    commitment: string;
+    snapshot: EligibilitySnapshot;
+    lottery: {
+        commitment: string;
+        targetSlot: number;
+        revealSlot: number;
+        blockhash: string;
+        seed: string;
+    };
+    winners: string[];
+}
+
+export interface WeightMismatch {
+    wallet: string;
+    published: number;
+    recomputed: number;
+}
+
+export interface VerificationReport {
+    roundId: string;
+    /** SHA-256 of the snapshot equals the published commitment */
+    commitmentMatches: boolean;
+    /** The reward log names the same commitment and target slot */
+    lotteryMatchesCommitment: boolean;
+    /** SHA-256(blockhash ‖ commitment) equals the published seed */
+    seedMatches: boolean;
+    /** Entries whose weight does not follow from its inputs */
+    weightMismatches: WeightMismatch[];
+    expectedWinners: string[];
+    publishedWinners: string[];
+    winnersMatch: boolean;
+    ok: boolean;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Verification
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Recompute weights from each entry's inputs with the snapshot's weighting:
+ * strategy weight, then winner cooldown, then cluster policy.
+ */
+export function recomputeWeights(snapshot: EligibilitySnapshot): Map<string, number> {
+    const { strategy: name, params, clusterMode, cooldown } = snapshot.weighting;
+    const strategy = createWeightStrategy(name, params);
+
+    const entries = snapshot.entries.map(entry => ({
+        wallet: entry.wallet,
+        clusterId: entry.clusterId,
+        weight: strategy.weigh(entry).weight * cooldownFactor(entry.roundsSinceWin, cooldown),
+        clusterSize: 1,
+        clusterFactor: 1,
+    }));
+    applyClusterPolicy(entries, clusterMode);
+
+    return new Map(entries.map(entry => [entry.wallet, entry.weight]));
+}
+
+/**
+ * Draw winners from a snapshot with a seed, exactly as the bot does.
+ */
+export function drawWinners(snapshot: EligibilitySnapshot, seed: string): string[] {
+    const random = createSeededRandom(seed);
+    return drawWeighted(sortSnapshotEntries(snapshot.entries), snapshot.winnersCount, random)
+        .map(entry => entry.wallet);
+}
+
+/**
+ * Verify a published round. Winners are drawn from the committed weights;
+ * weights are separately checked against their inputs.
+ *
+ * The blockhash itself must be checked against the chain (it is the
+ * blockhash of `revealSlot`, the first produced slot at or after
+ * `targetSlot`); that needs an RPC and is left to the caller.
+ */
+export function verifyRound(round: PublishedRound): VerificationReport {
+    const { snapshot, lottery } = round;
+
+    const commitmentMatches = computeCommitment(snapshot) === round.commitment;
+    const lotteryMatchesCommitment = lottery.commitment === round.commitment
+        && lottery.targetSlot === snapshot.targetSlot;
+    const seedMatches = deriveSeed(lottery.blockhash, round.commitment) === lottery.seed;
+
+    const recomputed = recomputeWeights(snapshot);
+    const weightMismatches: WeightMismatch[] = [];
+    for (const entry of snapshot.entries) {
+        const weight = recomputed.get(entry.wallet)!;
+        const scale = Math.max(Math.abs(weight), Math.abs(entry.weight), 1);
+        if (Math.abs(weight - entry.weight) > WEIGHT_TOLERANCE * scale) {
+            weightMismatches.push({ wallet: entry.wallet, published: entry.weight, recomputed: weight });
+        }
+    }
+
+    const expectedWinners = drawWinners(snapshot, deriveSeed(lottery.blockhash, round.commitment));
+    const winnersMatch = expectedWinners.length === round.winners.length
+        && expectedWinners.every((wallet, i) => wallet === round.winners[i]);
+
+    return {
+        roundId: snapshot.roundId,
+        commitmentMatches,
+        lotteryMatchesCommitment,
+        seedMatches,
+        weightMismatches,
+        expectedWinners,
+        publishedWinners: round.winners,
+        winnersMatch,
+        ok: commitmentMatches && lotteryMatchesCommitment && seedMatches
+            && weightMismatches.length === 0 && winnersMatch,
+    };
+}
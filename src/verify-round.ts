@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Connection } from '@solana/web3.js';
+import * as dotenv from 'dotenv';
+import { verifyRound, PublishedRound, VerificationReport } from './verifier';
+import { EligibilitySnapshot } from './lottery';
+
+dotenv.config();
+
+// ─────────────────────────────────────────────────────────────────────────────
+// verify-round <roundId> [--public-dir <dir>]
+// ─────────────────────────────────────────────────────────────────────────────
+//
+// Verifies a reward round from the published transparency files only (no
+// database or keypair needed). If RPC_URL is set, the revealed blockhash is
+// also checked against the chain.
+
+const REVEAL_SLOT_SEARCH = 100;
+
+interface RewardHistoryEntry {
+    type: string;
+    data: {
+        roundId?: string;
+        winners?: Array<{ wallet: string }>;
+        lottery?: PublishedRound['lottery'] | null;
+    };
+}
+
+function parseCliArgs(): { roundId: string; publicDir: string } {
+    const args = process.argv.slice(2);
+    const dirIndex = args.indexOf('--public-dir');
+    const publicDir = dirIndex >= 0 ? args[dirIndex + 1] : path.join(process.cwd(), 'public');
+    const roundId = args.find((arg, i) => !arg.startsWith('--') && (dirIndex < 0 || i !== dirIndex + 1));
+
+    if (!roundId || !publicDir) {
+        console.error('Usage: npm run verify-round -- <roundId> [--public-dir <dir>]');
+        process.exit(2);
+    }
+
+    return { roundId, publicDir };
+}
+
+/**
+ * Load a round's published commitment file and reward log entry.
+ */
+function loadPublishedRound(publicDir: string, roundId: string): PublishedRound {
+    const commitmentPath = path.join(publicDir, 'commitments', `${roundId}.json`);
+    if (!fs.existsSync(commitmentPath)) {
+        throw new Error(`No commitment published for round ${roundId} (${commitmentPath})`);
+    }
+    const { commitment, snapshot } = JSON.parse(fs.readFileSync(commitmentPath, 'utf-8')) as {
+        commitment: string;
+        snapshot: EligibilitySnapshot;
+    };
+
+    const historyPath = path.join(publicDir, 'history.jsonl');
+    const reward = fs.existsSync(historyPath)
+        ? fs.readFileSync(historyPath, 'utf-8')
+            .split('\n')
+            .filter(line => line.trim() !== '')
+            .map(line => JSON.parse(line) as RewardHistoryEntry)
+            .find(entry => entry.type === 'reward' && entry.data.roundId === roundId)
+        : undefined;
+
+    if (!reward?.data.lottery) {
+        throw new Error(`No revealed reward entry for round ${roundId} in ${historyPath}`);
+    }
+
+    return {
+        commitment,
+        snapshot,
+        lottery: reward.data.lottery,
+        winners: (reward.data.winners ?? []).map(w => w.wallet),
+    };
+}
+
+/**
+ * Check that revealSlot is the first produced slot at or after targetSlot
+ * and that its blockhash is the one published.
+ */
+async function checkBlockhashOnChain(rpcUrl: string, round: PublishedRound): Promise<string | null> {
+    const connection = new Connection(rpcUrl, 'finalized');
+    const { targetSlot, revealSlot, blockhash } = round.lottery;
+
+    const produced = await connection.getBlocks(targetSlot, targetSlot + REVEAL_SLOT_SEARCH, 'finalized');
+    if (produced[0] !== revealSlot) {
+        return `first produced slot at or after ${targetSlot} is ${produced[0]}, not ${revealSlot}`;
+    }
+
+    const block = await connection.getBlock(revealSlot, {
+        maxSupportedTransactionVersion: 0,
+        transactionDetails: 'none',
+        rewards: false,
+    });
+    if (block?.blockhash !== blockhash) {
+        return `blockhash of slot ${revealSlot} is ${block?.blockhash}, not ${blockhash}`;
+    }
+
+    return null;
+}
+
+function printReport(report: VerificationReport, chainError: string | null | undefined): void {
+    const mark = (ok: boolean): string => (ok ? 'OK      ' : 'MISMATCH');
+
+    console.log('');
+    console.log(`[VERIFY] Round ${report.roundId}`);
+    console.log(`[VERIFY]   ${mark(report.commitmentMatches)} commitment = SHA-256(snapshot)`);
+    console.log(`[VERIFY]   ${mark(report.lotteryMatchesCommitment)} reward log names the committed snapshot and slot`);
+    console.log(`[VERIFY]   ${mark(report.seedMatches)} seed = SHA-256(blockhash ‖ commitment)`);
+    console.log(`[VERIFY]   ${mark(report.weightMismatches.length === 0)} weights follow from inputs`);
+    for (const mismatch of report.weightMismatches) {
+        console.log(`[VERIFY]       ${mismatch.wallet}: published ${mismatch.published}, recomputed ${mismatch.recomputed}`);
+    }
+    console.log(`[VERIFY]   ${mark(report.winnersMatch)} winners`);
+    if (!report.winnersMatch) {
+        console.log(`[VERIFY]       expected:  ${report.expectedWinners.join(', ')}`);
+        console.log(`[VERIFY]       published: ${report.publishedWinners.join(', ')}`);
+    }
+    if (chainError === undefined) {
+        console.log('[VERIFY]   SKIPPED  blockhash on chain (set RPC_URL to check)');
+    } else {
+        console.log(`[VERIFY]   ${mark(chainError === null)} blockhash on chain${chainError ? `: ${chainError}` : ''}`);
+    }
+    console.log('');
+}
+
+async function main(): Promise<void> {
+    const { roundId, publicDir } = parseCliArgs();
+    const round = loadPublishedRound(publicDir, roundId);
+    const report = verifyRound(round);
+
+    const rpcUrl = process.env.RPC_URL;
+    const chainError = rpcUrl ? await checkBlockhashOnChain(rpcUrl, round) : undefined;
+
+    printReport(report, chainError);
+
+    const ok = report.ok && !chainError;
+    console.log(ok ? '[VERIFY] Round verified: MATCH' : '[VERIFY] Round verification FAILED: MISMATCH');
+    process.exit(ok ? 0 : 1);
+}
+
+main().catch(err => {
+    console.error('[VERIFY] Error:', err instanceof Error ? err.message : err);
+    process.exit(2);
+});
@@ -0,0 +1,257 @@
+// Lottery weight strategies. Kept free of imports (config, database, RPC) so
+// past rounds can be re-weighed from their published parameters alone.
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Weight Strategy Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Built-in lottery weight strategies:
+ * - current:              age^ageExponent × streak factor × log TWB factor
+ * - balance_proportional: weight follows the token balance
+ * - equal_chance:         every eligible wallet weighs 1
+ * - twb_linear:           weight follows the time-weighted balance
+ * - whale_dampened:       balance capped at whaleCapTokens, raised to whaleExponent
+ */
+export type WeightStrategyName =
+    | 'current'
+    | 'balance_proportional'
+    | 'equal_chance'
+    | 'twb_linear'
+    | 'whale_dampened';
+
+/**
+ * How wallets sharing a funding cluster enter the draw:
+ * - off:   every wallet enters on its own
+ * - cap:   the cluster enters once, as its highest-weight member
+ * - split: members share one entry's weight (each weight / cluster size)
+ */
+export type ClusterMode = 'off' | 'cap' | 'split';
+
+/**
+ * What winning does to a wallet's next draws:
+ * - off:     nothing
+ * - exclude: sits out the next `rounds` rounds
+ * - decay:   weight × decayFactor right after a win, recovering linearly
+ *            to full weight over `rounds` rounds
+ */
+export type CooldownMode = 'off' | 'exclude' | 'decay';
+
+export interface CooldownPolicy {
+    mode: CooldownMode;
+    rounds: number;
+    decayFactor: number;
+}
+
+export const WEIGHT_STRATEGY_NAMES: WeightStrategyName[] = [
+    'current',
+    'balance_proportional',
+    'equal_chance',
+    'twb_linear',
+    'whale_dampened',
+];
+
+export interface WeightParams {
+    /** current: exponent applied to wallet age in days (0.5 = sqrt) */
+    ageExponent: number;
+    /** current: streak factor is 1 + streak / streakDivisor ... */
+    streakDivisor: number;
+    /** ... capped at streakCap */
+    streakCap: number;
+    /** current: TWB factor is 1 + log10(1 + TWB), capped at twbCap */
+    twbCap: number;
+    /** balance_proportional, whale_dampened: multiplier on the balance term */
+    balanceCoefficient: number;
+    /** twb_linear: multiplier on TWB (token-hours) */
+    twbCoefficient: number;
+    /** whale_dampened: balance above this many tokens counts as this (0 = no cap) */
+    whaleCapTokens: number;
+    /** whale_dampened: exponent applied to the capped balance */
+    whaleExponent: number;
+    /** Cap on the final weight, any strategy (0 = uncapped) */
+    maxWeight: number;
+}
+
+/** What a strategy weighs a holder on */
+export interface WeightInputs {
+    walletAgeDays: number;
+    streakRounds: number;
+    twbScore: number;
+    tokenBalanceUi: number;
+}
+
+export interface WeightBreakdown {
+    weight: number;
+    /** Each factor that went into the weight, by name */
+    factors: Record<string, number>;
+}
+
+export interface WeightStrategy {
+    name: WeightStrategyName;
+    params: WeightParams;
+    /** Whether the weight has a wallet-age factor (needs an exact age) */
+    usesWalletAge: boolean;
+    weigh(inputs: WeightInputs): WeightBreakdown;
+}
+
+/** Parameters that reproduce the original hard-coded formula */
+export const DEFAULT_WEIGHT_PARAMS: WeightParams = {
+    ageExponent: 0.5,
+    streakDivisor: 10,
+    streakCap: 3,
+    twbCap: 5,
+    balanceCoefficient: 1,
+    twbCoefficient: 1,
+    whaleCapTokens: 0,
+    whaleExponent: 0.5,
+    maxWeight: 10,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Strategies
+// ─────────────────────────────────────────────────────────────────────────────
+
+type Weigher = (inputs: WeightInputs, params: WeightParams) => Record<string, number>;
+
+/** Each weigher returns its factors; the weight is their product */
+const WEIGHERS: Record<WeightStrategyName, Weigher> = {
+    current: ({ walletAgeDays, streakRounds, twbScore }, params) => ({
+        age: Math.pow(Math.max(0, walletAgeDays), params.ageExponent),
+        streak: Math.min(params.streakCap, 1 + streakRounds / params.streakDivisor),
+        twb: Math.min(params.twbCap, 1 + Math.log10(1 + Math.max(0, twbScore))),
+    }),
+
+    balance_proportional: ({ tokenBalanceUi }, params) => ({
+        balance: params.balanceCoefficient * Math.max(0, tokenBalanceUi),
+    }),
+
+    equal_chance: () => ({
+        equal: 1,
+    }),
+
+    twb_linear: ({ twbScore }, params) => ({
+        twb: params.twbCoefficient * Math.max(0, twbScore),
+    }),
+
+    whale_dampened: ({ tokenBalanceUi }, params) => {
+        const balance = Math.max(0, tokenBalanceUi);
+        const capped = params.whaleCapTokens > 0 ? Math.min(balance, params.whaleCapTokens) : balance;
+        return {
+            balance: params.balanceCoefficient * Math.pow(capped, params.whaleExponent),
+        };
+    },
+};
+
+/** Strategies whose weight grows with wallet age */
+const AGE_WEIGHTED_STRATEGIES: ReadonlySet<WeightStrategyName> = new Set(['current']);
+
+/**
+ * Whether a strategy weighs wallet age. Their holders need an exact age: a
+ * lower bound would underweight old wallets.
+ */
+export function strategyUsesWalletAge(name: WeightStrategyName): boolean {
+    return AGE_WEIGHTED_STRATEGIES.has(name);
+}
+
+/**
+ * Build a weight strategy. Weight = product of the strategy's factors,
+ * capped at `maxWeight` when set.
+ */
+export function createWeightStrategy(name: WeightStrategyName, params: WeightParams): WeightStrategy {
+    const weigher = WEIGHERS[name];
+    if (!weigher) {
+        throw new Error(`Unknown weight strategy: ${name}`);
+    }
+
+    return {
+        name,
+        params,
+        usesWalletAge: strategyUsesWalletAge(name),
+        weigh(inputs: WeightInputs): WeightBreakdown {
+            const factors = weigher(inputs, params);
+            const product = Object.values(factors).reduce((acc, factor) => acc * factor, 1);
+
+            return {
+                weight: params.maxWeight > 0 ? Math.min(params.maxWeight, product) : product,
+                factors,
+            };
+        },
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Winner Cooldown
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Weight multiplier for a past winner. `roundsSinceWin` counts reward rounds
+ * completed after the wallet's last win (0 = won the previous round); null
+ * means it never won.
+ */
+export function cooldownFactor(roundsSinceWin: number | null | undefined, policy: CooldownPolicy | undefined): number {
+    if (!policy || policy.mode === 'off' || roundsSinceWin === null || roundsSinceWin === undefined) {
+        return 1;
+    }
+    if (roundsSinceWin >= policy.rounds) return 1;
+
+    if (policy.mode === 'exclude') return 0;
+    return policy.decayFactor + (1 - policy.decayFactor) * (roundsSinceWin / policy.rounds);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cluster Policy
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ClusteredWeight {
+    wallet: string;
+    clusterId: string | null;
+    weight: number;
+    /** Set here: entries in the same cluster (1 if unclustered) */
+    clusterSize: number;
+    /** Set here: multiplier applied to the weight */
+    clusterFactor: number;
+}
+
+/**
+ * Adjust the weights of entries that share a funding cluster, so splitting
+ * a position across wallets does not buy extra tickets.
+ *
+ *   cap   - the highest-weight member (ties: smallest wallet) keeps its
+ *           weight; the rest drop to 0
+ *   split - every member's weight is divided by the cluster size
+ *
+ * Only the given entries count toward the cluster size. Mutates the entries
+ * and returns the number of clusters adjusted.
+ */
+export function applyClusterPolicy<T extends ClusteredWeight>(entries: T[], mode: ClusterMode): number {
+    const clusters = new Map<string, T[]>();
+    for (const entry of entries) {
+        if (!entry.clusterId) continue;
+        clusters.set(entry.clusterId, [...(clusters.get(entry.clusterId) ?? []), entry]);
+    }
+
+    let adjusted = 0;
+    for (const members of clusters.values()) {
+        for (const member of members) member.clusterSize = members.length;
+        if (members.length < 2 || mode === 'off') continue;
+
+        if (mode === 'cap') {
+            const keep = [...members].sort((a, b) =>
+                b.weight - a.weight || (a.wallet < b.wallet ? -1 : a.wallet > b.wallet ? 1 : 0))[0];
+            for (const member of members) {
+                member.clusterFactor = member === keep ? 1 : 0;
+            }
+        } else {
+            for (const member of members) {
+                member.clusterFactor = 1 / members.length;
+            }
+        }
+
+        for (const member of members) {
+            member.weight *= member.clusterFactor;
+        }
+        adjusted++;
+    }
+
+    return adjusted;
+}
@@ -0,0 +1,49 @@
+import './helpers/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection } from '@solana/web3.js';
+import { getConfig } from '../src/config';
+import { getHolder, initDb, upsertHolder } from '../src/db';
+import { computeWalletAge, isWalletAgeSettled } from '../src/age';
+import { tempDbPath } from './helpers/db';
+
+// Wallet age discovery with the default (age-weighted) strategy: a lower
+// bound past WALLET_MIN_AGE_DAYS is not the wallet's age.
+
+const WALLET = '9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu';
+const DAY = 24 * 60 * 60;
+const NOW = Math.floor(Date.now() / 1000);
+
+/** Two pages of history: a full page 200 days old, then the first transactions 400 days back */
+function fakeConnection(): { connection: Connection; calls: () => number } {
+    const pages = [
+        Array.from({ length: 1000 }, (_, i) => ({ signature: `recent${i}`, blockTime: NOW - 200 * DAY - i })),
+        Array.from({ length: 3 }, (_, i) => ({ signature: `first${i}`, blockTime: NOW - 400 * DAY - i })),
+    ];
+    let calls = 0;
+    const connection = {
+        getSignaturesForAddress: async () => pages[calls++] ?? [],
+    } as unknown as Connection;
+    return { connection, calls: () => calls };
+}
+
+initDb(tempDbPath());
+
+test('age discovery walks past the minimum age to the first transaction', async () => {
+    const rpc = fakeConnection();
+
+    const firstSeenTs = await computeWalletAge(rpc.connection, WALLET);
+
+    assert.equal(rpc.calls(), 2);
+    assert.equal(firstSeenTs, NOW - 400 * DAY - 2);
+    assert.equal(getHolder(WALLET)?.age_status, 'exact');
+});
+
+test('an old lower bound is settled only when the strategy ignores age', () => {
+    upsertHolder(WALLET, { first_seen_ts: NOW - 200 * DAY, age_status: 'lower_bound', age_cursor: 'recent999' });
+    const holder = getHolder(WALLET)!;
+    const config = getConfig();
+
+    assert.equal(isWalletAgeSettled(holder, config), false);
+    assert.equal(isWalletAgeSettled(holder, { ...config, weightStrategy: 'equal_chance' }), true);
+});
@@ -0,0 +1,110 @@
+import './helpers/env';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import { Connection } from '@solana/web3.js';
+import { getBuysForWallet, getHolder, initDb, LEGACY_BUY_SOURCE } from '../src/db';
+import { processTransactions } from '../src/scan';
+import { HeliusEnrichedTransaction } from '../src/sources';
+import { tempDbPath } from './helpers/db';
+import { pumpFixture } from './helpers/fixtures';
+
+// Buy ledger on a database upgraded from before the ledger existed: legacy
+// cumulative totals, then bootstrap replaying the same history.
+
+const BUYER = '9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu';
+const NOW = Math.floor(Date.now() / 1000);
+
+// Only used to queue lookups for new holders
+const connection = {} as Connection;
+
+function createBaselineDb(dbPath: string): void {
+    const db = new Database(dbPath);
+    db.exec(`
+        CREATE TABLE holders (
+          wallet TEXT PRIMARY KEY,
+          first_seen_ts INTEGER,
+          last_seen_ts INTEGER,
+          last_balance_raw TEXT,
+          last_balance_check_ts INTEGER,
+          last_decrease_ts INTEGER,
+          continuity_start_ts INTEGER,
+          streak_rounds INTEGER DEFAULT 0,
+          twb_score REAL DEFAULT 0.0,
+          cumulative_buy_sol REAL DEFAULT 0.0,
+          cumulative_buy_sol_low_confidence REAL DEFAULT 0.0,
+          is_blacklisted INTEGER DEFAULT 0
+        );
+    `);
+    const insert = db.prepare(`
+        INSERT INTO holders (wallet, first_seen_ts, cumulative_buy_sol, cumulative_buy_sol_low_confidence)
+        VALUES (?, ?, ?, ?)
+    `);
+    // BUYER's 2.5 SOL includes the 1.01 SOL buy of the pump-buy-event fixture
+    insert.run(BUYER, 1_700_000_000, 2.5, 0.1);
+    db.close();
+}
+
+/** SOL totals are float sums of ledger rows */
+function assertSol(actual: number | undefined, expected: number): void {
+    assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-9, `expected ${expected} SOL, got ${actual}`);
+}
+
+/** The pump-buy-event buy again, under another signature and timestamp */
+function buyAt(signature: string, timestamp: number): HeliusEnrichedTransaction {
+    return { ...pumpFixture('pump-buy-event'), signature, timestamp };
+}
+
+const dbPath = tempDbPath('upgraded.db');
+createBaselineDb(dbPath);
+initDb(dbPath);
+
+test('upgrade seeds carry-over rows from the legacy totals', () => {
+    const rows = getBuysForWallet(BUYER);
+    assert.deepEqual(rows.map(r => [r.signature, r.sol_spent, r.confidence, r.source]), [
+        ['legacy-carryover', 2.5, 'high', LEGACY_BUY_SOURCE],
+        ['legacy-carryover-low', 0.1, 'low', LEGACY_BUY_SOURCE],
+    ]);
+    assert.ok(rows.every(r => r.ts >= NOW));
+    assertSol(getHolder(BUYER)?.cumulative_buy_sol, 2.5);
+});
+
+test('re-running bootstrap over old buys does not add them to the carry-over', async () => {
+    await processTransactions(connection, [pumpFixture('pump-buy-event')], 'bootstrap');
+
+    assert.equal(getBuysForWallet(BUYER).length, 3);
+    assertSol(getHolder(BUYER)?.cumulative_buy_sol, 2.5);
+    assert.equal(getHolder(BUYER)?.cumulative_buy_sol_low_confidence, 0.1);
+
+    // Replaying again changes nothing
+    await processTransactions(connection, [pumpFixture('pump-buy-event')], 'bootstrap');
+    assertSol(getHolder(BUYER)?.cumulative_buy_sol, 2.5);
+});
+
+test('old buys beyond the carry-over raise the total to the ledgered sum', async () => {
+    const oldTs = pumpFixture('pump-buy-event').timestamp;
+    await processTransactions(connection, [buyAt('old-history-2', oldTs + 1), buyAt('old-history-3', oldTs + 2)], 'bootstrap');
+
+    assertSol(getHolder(BUYER)?.cumulative_buy_sol, 3.03);
+});
+
+test('buys after the upgrade add to the carry-over', async () => {
+    await processTransactions(connection, [buyAt('after-upgrade-1', NOW + 3600)], 'stream');
+
+    assertSol(getHolder(BUYER)?.cumulative_buy_sol, 4.04);
+});
+
+test('two buys by one wallet in one transaction are both counted', async () => {
+    const tx = JSON.parse(JSON.stringify(buyAt('two-legs-1', NOW + 7200))) as HeliusEnrichedTransaction;
+    // A router doing two pump.fun legs: the buy instruction (and its event) twice
+    const instructions = tx.instructions ?? [];
+    const leg = instructions.find(ix => ix.programId === '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P')!;
+    instructions.push(JSON.parse(JSON.stringify(leg)));
+
+    await processTransactions(connection, [tx], 'stream');
+
+    const [row] = getBuysForWallet(BUYER).filter(r => r.signature === 'two-legs-1');
+    assert.equal(row.sol_spent, 2.02);
+    assert.equal(row.token_received, 69_000);
+    assertSol(getHolder(BUYER)?.cumulative_buy_sol, 6.06);
+});
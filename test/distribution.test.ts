@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { allocateRewards, DistributionPolicy } from '../src/distribution';
+
+const TIERED: DistributionPolicy = { mode: 'tiered', tiers: [50, 30, 20], basePercent: 0 };
+
+function winners(count: number): Array<{ weight: number }> {
+    return Array.from({ length: count }, () => ({ weight: 1 }));
+}
+
+test('tiered: tiers pay fixed percents of the pot by draw position', () => {
+    assert.deepEqual(allocateRewards(BigInt(1000), winners(3), TIERED), [BigInt(500), BigInt(300), BigInt(200)]);
+});
+
+test('tiered: fewer winners than tiers keep their fixed percents', () => {
+    // The third tier stays in the treasury instead of scaling the others up
+    assert.deepEqual(allocateRewards(BigInt(1000), winners(2), TIERED), [BigInt(500), BigInt(300)]);
+});
+
+test('tiered: winners past the tiers split the remainder equally', () => {
+    const policy: DistributionPolicy = { ...TIERED, tiers: [50, 30] };
+    assert.deepEqual(allocateRewards(BigInt(1000), winners(4), policy),
+        [BigInt(500), BigInt(300), BigInt(100), BigInt(100)]);
+
+    // Tiers summing to 100 leave nothing for later positions
+    assert.deepEqual(allocateRewards(BigInt(1000), winners(5), TIERED),
+        [BigInt(500), BigInt(300), BigInt(200), BigInt(0), BigInt(0)]);
+});
+
+test('tiered: rounding is exact over the whole pot', () => {
+    const amounts = allocateRewards(BigInt(1001), winners(3), TIERED);
+    assert.equal(amounts.reduce((sum, amount) => sum + amount, BigInt(0)), BigInt(1001));
+});
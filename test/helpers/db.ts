@@ -0,0 +1,12 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Temporary database files, removed when the test process exits.
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pre-mayhem-test-'));
+process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
+
+export function tempDbPath(name: string = 'bot.db'): string {
+    return path.join(dir, name);
+}
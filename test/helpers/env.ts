@@ -0,0 +1,8 @@
+import { Keypair } from '@solana/web3.js';
+
+// Import first in tests that touch config: a throwaway environment.
+
+process.env.RPC_URL = 'http://127.0.0.1:1';
+process.env.HELIUS_API_KEY = 'test';
+process.env.TOKEN_MINT = 'AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9';
+process.env.TREASURY_KEYPAIR_JSON = JSON.stringify(Array.from(Keypair.generate().secretKey));
@@ -0,0 +1,112 @@
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fake Solana RPC Websocket
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Local stand-in for an RPC node's websocket: answers subscribe and
+ * unsubscribe calls, pushes slot and logs notifications to every open
+ * subscription, and can drop its clients to exercise reconnects.
+ */
+export class FakeSolanaWs {
+    private readonly server: WebSocketServer;
+    private nextSubscriptionId = 1;
+    private subscriptions = new Map<number, { method: string; socket: WebSocket }>();
+    /** Every subscribe call received, by method, across reconnects */
+    readonly subscribeCalls: string[] = [];
+    connections = 0;
+
+    private constructor(server: WebSocketServer) {
+        this.server = server;
+        server.on('connection', socket => {
+            this.connections++;
+            socket.on('message', raw => this.onMessage(socket, raw.toString()));
+            socket.on('close', () => {
+                for (const [id, sub] of this.subscriptions) {
+                    if (sub.socket === socket) this.subscriptions.delete(id);
+                }
+            });
+        });
+    }
+
+    static async start(): Promise<FakeSolanaWs> {
+        const server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+        await new Promise<void>(resolve => server.once('listening', () => resolve()));
+        return new FakeSolanaWs(server);
+    }
+
+    /** Open client sockets */
+    get clientCount(): number {
+        return this.server.clients.size;
+    }
+
+    get url(): string {
+        return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    private onMessage(socket: WebSocket, raw: string): void {
+        const message = JSON.parse(raw) as { id?: number; method: string; params?: unknown[] };
+        if (message.id === undefined) return; // notifications (ping)
+
+        let result: unknown = true;
+        if (message.method.endsWith('Subscribe')) {
+            const id = this.nextSubscriptionId++;
+            const method = message.method.replace(/Subscribe$/, '');
+            this.subscriptions.set(id, { method, socket });
+            this.subscribeCalls.push(method);
+            result = id;
+        } else if (message.method.endsWith('Unsubscribe')) {
+            this.subscriptions.delete(Number(message.params?.[0]));
+        }
+
+        socket.send(JSON.stringify({ jsonrpc: '2.0', id: message.id, result }));
+    }
+
+    private notify(method: string, result: unknown): void {
+        for (const [id, sub] of this.subscriptions) {
+            if (sub.method !== method) continue;
+            sub.socket.send(JSON.stringify({
+                jsonrpc: '2.0',
+                method: `${method}Notification`,
+                params: { result, subscription: id },
+            }));
+        }
+    }
+
+    hasSubscription(method: string): boolean {
+        return Array.from(this.subscriptions.values()).some(sub => sub.method === method);
+    }
+
+    sendSlot(slot: number): void {
+        this.notify('slot', { slot, parent: slot - 1, root: slot - 32 });
+    }
+
+    sendLogs(signature: string, err: unknown = null): void {
+        this.notify('logs', { context: { slot: 1 }, value: { signature, err, logs: [] } });
+    }
+
+    /** Drop every client without a close handshake, like a lost connection */
+    dropClients(): void {
+        for (const socket of this.server.clients) {
+            socket.terminate();
+        }
+    }
+
+    async close(): Promise<void> {
+        this.dropClients();
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+    }
+}
+
+/**
+ * Resolve once `condition` holds, polling every 20ms; reject after `timeoutMs`.
+ */
+export async function waitFor(condition: () => boolean, timeoutMs = 5000, label = 'condition'): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > deadline) throw new Error(`Timed out waiting for ${label}`);
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+}
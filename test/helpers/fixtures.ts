@@ -0,0 +1,11 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HeliusEnrichedTransaction } from '../../src/sources';
+
+/**
+ * Load a synthetic Helius enhanced transaction from test/fixtures/pumpfun.
+ */
+export function pumpFixture(name: string): HeliusEnrichedTransaction {
+    const file = path.join(__dirname, '..', 'fixtures', 'pumpfun', `${name}.json`);
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as HeliusEnrichedTransaction;
+}
@@ -0,0 +1,137 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodePumpTrades } from '../src/pumpfun';
+import { detectBuysFromTransaction, detectSellsFromTransaction } from '../src/scan';
+import { pumpFixture as fixture } from './helpers/fixtures';
+
+// Fixtures (test/fixtures/pumpfun) are synthetic: hand-built Helius enhanced
+// transaction payloads whose instruction and event data are encoded in the
+// pump.fun / PumpSwap layouts the decoder expects. Wallets, mints and
+// signatures are made up and shared across files; none is a recorded mainnet
+// transaction, so they check the decoder against its own reading of the
+// layouts, not against real data.
+
+const MINT = 'AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9';
+const OTHER_MINT = 'EdmxWPmx2WH6WgFfTdu9xfkYf3k1g5wD1zccTVySEEh1';
+const BUYER = '9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu';
+const SELLER = 'GyGKxMyg1p9SsHfm15MkNUu1u9TN2JtTspcdmrtGUdse';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// pump.fun Bonding Curve
+// ─────────────────────────────────────────────────────────────────────────────
+
+test('pump.fun buy: TradeEvent amount includes protocol and creator fees', () => {
+    const tx = fixture('pump-buy-event');
+
+    assert.deepEqual(decodePumpTrades(tx, MINT), [{
+        program: 'pump',
+        direction: 'buy',
+        user: BUYER,
+        mint: MINT,
+        solLamports: BigInt(1_010_000_000),
+        tokenAmountRaw: BigInt(34_500_000_000),
+        tokenDecimals: 6,
+        origin: 'event',
+    }]);
+
+    const buys = detectBuysFromTransaction(tx, MINT);
+    assert.equal(buys.length, 1);
+    assert.equal(buys[0].wallet, BUYER);
+    assert.equal(buys[0].solSpent, 1.01);
+    assert.equal(buys[0].tokenReceived, 34_500);
+    assert.equal(buys[0].confidence, 'high');
+    assert.equal(buys[0].source, 'PUMP_FUN');
+});
+
+test('pump.fun sell: legacy TradeEvent without fee fields', () => {
+    const tx = fixture('pump-sell-legacy-event');
+
+    const [trade] = decodePumpTrades(tx, MINT);
+    assert.equal(trade.direction, 'sell');
+    assert.equal(trade.user, SELLER);
+    assert.equal(trade.solLamports, BigInt(580_000_000));
+    assert.equal(trade.origin, 'event');
+
+    assert.deepEqual(detectBuysFromTransaction(tx, MINT), []);
+    const sells = detectSellsFromTransaction(tx, MINT);
+    assert.equal(sells.length, 1);
+    assert.equal(sells[0].wallet, SELLER);
+    assert.equal(sells[0].solReceived, 0.58);
+    assert.equal(sells[0].tokenSold, 20_000);
+});
+
+test('pump.fun buy without its event falls back to the instruction', () => {
+    const tx = fixture('pump-buy-instruction-only');
+
+    const [trade] = decodePumpTrades(tx, MINT);
+    assert.equal(trade.origin, 'instruction');
+    assert.equal(trade.user, BUYER);
+    // max_sol_cost, not the amount spent
+    assert.equal(trade.solLamports, BigInt(300_000_000));
+
+    // Priced from the SOL delta (under the bound) and counted like an event
+    const [buy] = detectBuysFromTransaction(tx, MINT);
+    assert.equal(buy.solSpent, 0.29204428);
+    assert.equal(buy.tokenReceived, 10_000);
+    assert.equal(buy.confidence, 'high');
+});
+
+test('pump.fun trades of another mint are ignored', () => {
+    const tx = fixture('pump-buy-other-mint');
+
+    assert.deepEqual(decodePumpTrades(tx, MINT), []);
+    assert.equal(decodePumpTrades(tx, OTHER_MINT).length, 1);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PumpSwap AMM
+// ─────────────────────────────────────────────────────────────────────────────
+
+test('PumpSwap buy: BuyEvent user quote amount', () => {
+    const tx = fixture('pumpswap-buy-event');
+
+    assert.deepEqual(decodePumpTrades(tx, MINT), [{
+        program: 'pumpswap',
+        direction: 'buy',
+        user: BUYER,
+        mint: MINT,
+        solLamports: BigInt(251_250_000),
+        tokenAmountRaw: BigInt(5_000_000_000),
+        tokenDecimals: 6,
+        origin: 'event',
+    }]);
+
+    const [buy] = detectBuysFromTransaction(tx, MINT);
+    assert.equal(buy.solSpent, 0.25125);
+    assert.equal(buy.confidence, 'high');
+    assert.equal(buy.source, 'PUMP_AMM');
+});
+
+test('PumpSwap sell: SellEvent user quote amount', () => {
+    const tx = fixture('pumpswap-sell-event');
+
+    const [trade] = decodePumpTrades(tx, MINT);
+    assert.equal(trade.program, 'pumpswap');
+    assert.equal(trade.direction, 'sell');
+    assert.equal(trade.user, SELLER);
+    assert.equal(trade.solLamports, BigInt(396_000_000));
+    assert.equal(trade.origin, 'event');
+
+    const [sell] = detectSellsFromTransaction(tx, MINT);
+    assert.equal(sell.solReceived, 0.396);
+    assert.equal(sell.tokenSold, 8_000);
+});
+
+test('PumpSwap sell without its event falls back to the instruction', () => {
+    const tx = fixture('pumpswap-sell-instruction-only');
+
+    const [trade] = decodePumpTrades(tx, MINT);
+    assert.equal(trade.program, 'pumpswap');
+    assert.equal(trade.origin, 'instruction');
+    // min_quote_amount_out, not the amount received
+    assert.equal(trade.solLamports, BigInt(380_000_000));
+
+    const [sell] = detectSellsFromTransaction(tx, MINT);
+    assert.equal(sell.wallet, SELLER);
+    assert.equal(sell.solReceived, 0.395995);
+});
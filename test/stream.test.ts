@@ -0,0 +1,217 @@
+import './helpers/env';
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection } from '@solana/web3.js';
+import { initDb, isSignatureProcessed } from '../src/db';
+import { HeliusEnrichedTransaction, TransactionPage, TransactionSource } from '../src/sources';
+import { MintStream } from '../src/stream';
+import { tempDbPath } from './helpers/db';
+import { FakeSolanaWs, waitFor } from './helpers/fake-solana-ws';
+
+initDb(tempDbPath());
+
+// MintStream against a local fake of the RPC websocket: slot watchdog,
+// reconnects, the per-signature fetch retry limit and reconciliation.
+
+class FakeSource implements TransactionSource {
+    readonly name = 'fake';
+    readonly fetched = new Map<string, number>();
+    /** Signatures the source can return; anything else is "not indexed yet" */
+    readonly available = new Set<string>();
+
+    async fetchTransactions(): Promise<TransactionPage> {
+        return { transactions: [] };
+    }
+
+    async fetchTransactionsBySignature(signatures: string[]): Promise<HeliusEnrichedTransaction[]> {
+        for (const sig of signatures) {
+            this.fetched.set(sig, (this.fetched.get(sig) ?? 0) + 1);
+        }
+        return signatures.filter(sig => this.available.has(sig)).map(emptyTransaction);
+    }
+}
+
+function emptyTransaction(signature: string): HeliusEnrichedTransaction {
+    return {
+        signature,
+        timestamp: Math.floor(Date.now() / 1000),
+        slot: 1,
+        type: 'UNKNOWN',
+        source: 'UNKNOWN',
+        fee: 5000,
+        feePayer: '11111111111111111111111111111111',
+        nativeTransfers: [],
+        tokenTransfers: [],
+        accountData: [],
+        instructions: [],
+    } as unknown as HeliusEnrichedTransaction;
+}
+
+interface Harness {
+    server: FakeSolanaWs;
+    source: FakeSource;
+    stream: MintStream;
+    liveEvents: number;
+    givenUp: string[];
+}
+
+const harnesses: Harness[] = [];
+
+async function startHarness(): Promise<Harness> {
+    const server = await FakeSolanaWs.start();
+    const source = new FakeSource();
+    const connection = new Connection('http://127.0.0.1:1', { wsEndpoint: server.url });
+    const harness: Harness = { server, source, stream: undefined as unknown as MintStream, liveEvents: 0, givenUp: [] };
+
+    harness.stream = new MintStream(connection, {
+        staleSeconds: 1,
+        source,
+        onLive: () => { harness.liveEvents++; },
+        onGiveUp: (signatures) => { harness.givenUp.push(...signatures); },
+        flushIntervalMs: 50,
+        watchdogIntervalMs: 100,
+    });
+    harness.stream.start();
+    harnesses.push(harness);
+
+    await waitFor(() => server.hasSubscription('logs') && server.hasSubscription('slot'), 5000, 'subscriptions');
+    return harness;
+}
+
+after(async () => {
+    for (const { stream, server } of harnesses) {
+        await stream.stop();
+        // The client closes its idle socket itself; closing the server first would make it reconnect forever
+        await waitFor(() => server.clientCount === 0, 5000, 'client disconnect');
+        await server.close();
+    }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Slot Watchdog
+// ─────────────────────────────────────────────────────────────────────────────
+
+test('slot watchdog: live on slots, not live after staleSeconds of silence', async () => {
+    const { server, stream } = await startHarness();
+    assert.equal(stream.isLive(), false);
+
+    server.sendSlot(100);
+    await waitFor(() => stream.isLive(), 2000, 'live');
+
+    // No more slots: the watchdog notices after staleSeconds (1s)
+    await waitFor(() => !stream.isLive(), 3000, 'not live');
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Reconnect
+// ─────────────────────────────────────────────────────────────────────────────
+
+test('reconnect: re-subscribes after a dropped socket and catches up', async () => {
+    const harness = await startHarness();
+    const { server, stream } = harness;
+
+    server.sendSlot(200);
+    await waitFor(() => stream.isLive(), 2000, 'live');
+    assert.equal(harness.liveEvents, 1);
+
+    server.dropClients();
+    await waitFor(() => !stream.isLive(), 3000, 'not live after drop');
+
+    // The client reconnects on its own and subscribes again
+    await waitFor(() => server.connections >= 2 && server.hasSubscription('slot') && server.hasSubscription('logs'),
+        5000, 'resubscribe');
+    assert.equal(server.subscribeCalls.filter(m => m === 'logs').length, 2);
+
+    server.sendSlot(201);
+    await waitFor(() => stream.isLive(), 2000, 'live again');
+    assert.equal(harness.liveEvents, 2);
+
+    // Signatures keep flowing over the new socket
+    harness.source.available.add('sig-after-reconnect');
+    server.sendLogs('sig-after-reconnect');
+    await waitFor(() => isSignatureProcessed('sig-after-reconnect'), 2000, 'processed');
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fetch Retries
+// ─────────────────────────────────────────────────────────────────────────────
+
+test('retry limit: an unfetchable signature is tried 5 times, then handed to a poll', async () => {
+    const { server, source, givenUp } = await startHarness();
+
+    server.sendLogs('sig-never-indexed');
+    await waitFor(() => (source.fetched.get('sig-never-indexed') ?? 0) >= 5, 3000, '5 attempts');
+
+    // Several more flush intervals: no sixth attempt
+    await new Promise(resolve => setTimeout(resolve, 300));
+    assert.equal(source.fetched.get('sig-never-indexed'), 5);
+    assert.equal(isSignatureProcessed('sig-never-indexed'), false);
+    assert.deepEqual(givenUp, ['sig-never-indexed']);
+});
+
+test('retry: a signature indexed late is processed on a later attempt', async () => {
+    const { server, source } = await startHarness();
+
+    server.sendLogs('sig-late');
+    await waitFor(() => (source.fetched.get('sig-late') ?? 0) >= 2, 2000, 'second attempt');
+
+    source.available.add('sig-late');
+    await waitFor(() => isSignatureProcessed('sig-late'), 2000, 'processed');
+
+    const attempts = source.fetched.get('sig-late');
+    await new Promise(resolve => setTimeout(resolve, 200));
+    assert.equal(source.fetched.get('sig-late'), attempts);
+});
+
+test('processed and failed signatures are not fetched again', async () => {
+    const { server, source } = await startHarness();
+
+    source.available.add('sig-once');
+    server.sendLogs('sig-once');
+    await waitFor(() => isSignatureProcessed('sig-once'), 2000, 'processed');
+
+    server.sendLogs('sig-once');
+    server.sendLogs('sig-failed', { InstructionError: [0, 'Custom'] });
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    assert.equal(source.fetched.get('sig-once'), 1);
+    assert.equal(source.fetched.has('sig-failed'), false);
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Reconciliation
+// ─────────────────────────────────────────────────────────────────────────────
+
+test('reconcile: a poll finding nothing new keeps the stream live', async () => {
+    const { server, stream, source } = await startHarness();
+    server.sendSlot(300);
+    await waitFor(() => stream.isLive(), 2000, 'live');
+
+    source.available.add('sig-streamed');
+    server.sendLogs('sig-streamed');
+    await waitFor(() => isSignatureProcessed('sig-streamed'), 2000, 'processed');
+
+    assert.deepEqual(stream.reconcile(['sig-streamed']), []);
+    assert.equal(stream.isLive(), true);
+});
+
+test('reconcile: transactions the logs subscription missed renew it until it delivers', async () => {
+    const { server, stream } = await startHarness();
+    const slots = setInterval(() => server.sendSlot(400), 200);
+
+    try {
+        await waitFor(() => stream.isLive(), 2000, 'live');
+        const logsSubscribes = server.subscribeCalls.filter(m => m === 'logs').length;
+
+        assert.deepEqual(stream.reconcile(['sig-missed']), ['sig-missed']);
+        // Slots still arrive, but the stream no longer counts as live
+        assert.equal(stream.isLive(), false);
+        await waitFor(() => server.subscribeCalls.filter(m => m === 'logs').length === logsSubscribes + 1,
+            2000, 'logs resubscribe');
+
+        server.sendLogs('sig-after-renewal');
+        await waitFor(() => stream.isLive(), 2000, 'live again');
+    } finally {
+        clearInterval(slots);
+    }
+});